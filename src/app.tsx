@@ -1,156 +1,437 @@
-import React, { useRef, useEffect, useState, useCallback } from "react";
-import { openDB, getHistoryFromDB, deleteSongFromDB, clearHistoryFromDB, exportHistoryAsFile, Song, importHistoryAsFile } from "./db";
+import React, { useRef, useEffect, useState, useCallback, useMemo } from "react";
+import { openDB, getHistoryPageFromDB, deleteSongFromDB, deletePlaysFromDB, clearHistoryFromDB, Song, HISTORY_UPDATED_EVENT, SortConfig, SortKey, compareSongs, getPlayCountsFromDB, getPlayCountFromDB, getScrobblesFromDB, ScrobbleEntry, SCROBBLES_UPDATED_EVENT, HISTORY_TRASHED_EVENT, MediaType } from "./db";
+import { getPlayThreshold, setPlayThreshold, PlayThreshold } from "./tracking";
+import { parseQuery, matchesQuery, SearchQuery } from "./search";
+import { showImportModal } from "./importModal";
+import { showExportModal } from "./exportModal";
+import { showScrobbleModal } from "./scrobbleModal";
+import { showPlaylistModal } from "./playlistModal";
+import { showBulkDeleteModal } from "./bulkDeleteModal";
+import { confirmAction } from "./confirmModal";
+import { purgeExpiredTrash } from "./trash";
+import { HISTORY_SEARCH_PARAM } from "./contextMenu";
+import { getSettings, HistorySettings, SETTINGS_CHANGED_EVENT } from "./settings";
+import StatsView from "./components/StatsView";
+import SessionsView from "./components/SessionsView";
+import RediscoverView from "./components/RediscoverView";
+import SongList from "./components/SongList";
+import TrackingRulesView from "./components/TrackingRulesView";
+import TrashView from "./components/TrashView";
+import StorageView from "./components/StorageView";
+import RestorePointsView from "./components/RestorePointsView";
+import SyncView from "./components/SyncView";
+import SettingsView from "./components/SettingsView";
+import UndoSnackbar from "./components/UndoSnackbar";
+import TrackDetailsDrawer from "./components/TrackDetailsDrawer";
+import ChartsView, { ListeningSlot, isInSlot, describeSlot } from "./components/ChartsView";
 import "./css/app.scss";
 
+type View = "history" | "sessions" | "stats" | "charts" | "rediscover" | "tracking" | "trash" | "storage" | "restore" | "sync" | "settings";
+
+const VIEWS: { key: View; label: string }[] = [
+  { key: "history", label: "History" },
+  { key: "sessions", label: "Sessions" },
+  { key: "stats", label: "Stats" },
+  { key: "charts", label: "Charts" },
+  { key: "rediscover", label: "Rediscover" },
+  { key: "tracking", label: "Tracking" },
+  { key: "trash", label: "Trash" },
+  { key: "storage", label: "Storage" },
+  { key: "restore", label: "Restore points" },
+  { key: "sync", label: "Sync" },
+  { key: "settings", label: "Settings" },
+];
+
+const MEDIA_FILTERS: { key: MediaType | "all"; label: string }[] = [
+  { key: "all", label: "All" },
+  { key: "track", label: "Music" },
+  { key: "episode", label: "Podcasts" },
+  { key: "chapter", label: "Audiobooks" },
+];
+
+// Number of songs read from IndexedDB per page.
+const PAGE_SIZE = 100;
+
 const App: React.FC = () => {
+  // Currently displayed view
+  const [view, setView] = useState<View>("history");
+
   // IndexedDB instance
   const [db, setDb] = useState<IDBDatabase | undefined>(undefined);
 
-  // Songs history state
+  // Loaded songs, in sort order
   const [songs, setSongs] = useState<Song[]>([]);
+  const songsRef = useRef<Song[]>([]);
+  songsRef.current = songs;
+
+  // Whether more songs can be loaded past the loaded ones
+  const [hasMore, setHasMore] = useState<boolean>(false);
+
+  // Incremented on every reload, so pages requested for an older list are dropped
+  const listVersionRef = useRef<number>(0);
+
+  // Whether a page is being read
+  const loadingRef = useRef<boolean>(false);
 
   // Debounce timeout for search
   const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Filtered songs state
-  const [filteredSongs, setFilteredSongs] = useState<Song[]>([]);
-
-  // Search query state
+  // Search query state, as typed
   const [searchQuery, setSearchQuery] = useState<string>("");
 
-  // Sorting configuration state
-  const [sortConfig, setSortConfig] = useState<{ key: string; ascending: boolean }>({ key: "date", ascending: false });
+  // Search query applied to the list, once typing has settled and it parsed without errors
+  const [appliedQuery, setAppliedQuery] = useState<SearchQuery | null>(null);
+
+  // Syntax error of the typed search query
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  // Play counts per track URI, read when the applied query compares them
+  const [playCounts, setPlayCounts] = useState<Map<string, number> | undefined>(undefined);
+
+  // Play counts per track URI shown in the "Plays" column, kept current
+  const [trackPlayCounts, setTrackPlayCounts] = useState<Map<string, number> | undefined>(undefined);
+
+  // Play ids of the saved plays already counted in the "Plays" column
+  const countedPlayIdsRef = useRef<Set<string>>(new Set());
+
+  // URI of the track whose details are shown
+  const [detailUri, setDetailUri] = useState<string | null>(null);
+
+  // Whether plays that did not reach the play threshold are listed
+  const [showSkipped, setShowSkipped] = useState<boolean>(false);
+
+  // Media type the list is limited to
+  const [mediaFilter, setMediaFilter] = useState<MediaType | "all">("all");
+
+  // Day or hour slot selected in the charts, limiting the list to plays in that slot
+  const [slotFilter, setSlotFilter] = useState<ListeningSlot | null>(null);
+
+  // Play threshold state
+  const [playThreshold, setPlayThresholdState] = useState<PlayThreshold>(getPlayThreshold);
+
+  // Display settings state, kept in sync with the settings view
+  const [settings, setSettingsState] = useState<HistorySettings>(getSettings);
+
+  // Sorting configuration state, starting from the default sort of the settings
+  const [sortConfig, setSortConfig] = useState<SortConfig>(() => getSettings().defaultSort);
 
   // Currently playing song tracking
-  const currentPlayingUid = useRef<string | null>(null);
-  const currentPlayingUri = useRef<string | null>(null);
+  const [currentPlaying, setCurrentPlaying] = useState<{ uri: string; uid: string } | null>(null);
+
+  // Play ids of the selected songs, loaded or not
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Index of the song last selected or unselected, where a shift-click range starts
+  const selectionAnchorRef = useRef<number | null>(null);
+
+  // Scrobble queue entries of the loaded songs, keyed by play id
+  const [scrobbles, setScrobbles] = useState<Map<string, ScrobbleEntry> | undefined>(undefined);
+
+  // Whether the player is playing, so play/pause icons update
+  const [, setIsPlaying] = useState<boolean>(false);
+
+  /**
+   * The predicate of the filters the user applied: the search query, the media type and the charts slot, or undefined when none is applied.
+   * Plays recorded before media types were tracked are music tracks.
+   */
+  const searchFilter = useMemo(() => {
+    if (!appliedQuery?.conditions.length && mediaFilter === "all" && !slotFilter) return undefined;
+    return (song: Song) =>
+      (mediaFilter === "all" || (song.mediaType ?? "track") === mediaFilter) &&
+      (!slotFilter || isInSlot(song.listenDate, slotFilter)) &&
+      (!appliedQuery || matchesQuery(song, appliedQuery, playCounts));
+  }, [appliedQuery, playCounts, mediaFilter, slotFilter]);
+
+  /**
+   * The predicate a song must pass to be listed, combining the applied filters with the skipped plays visibility.
+   */
+  const filter = useMemo(() => {
+    if (showSkipped) return searchFilter;
+    return (song: Song) => !song.skipped && (!searchFilter || searchFilter(song));
+  }, [searchFilter, showSkipped]);
 
   /**
-   * Fetches the history from the IndexedDB and sorts it based on the current sorting configuration.
+   * Reads the next page of the history from IndexedDB, or the first one when `reset` is set.
+   * @param database - The open IndexedDB database instance.
+   * @param reset - Whether to replace the loaded songs instead of appending to them.
    */
-  const fetchHistory = useCallback(async () => {
+  const loadPage = useCallback(async (database: IDBDatabase, reset: boolean) => {
+    if (loadingRef.current && !reset) return;
+    if (reset) listVersionRef.current++;
+    const version = listVersionRef.current;
+    loadingRef.current = true;
     try {
-      const database = await openDB();
-      const songsFromDB = await getHistoryFromDB(database);
-      setDb(database);
-      const sortedSongs = sortSongs(songsFromDB, sortConfig);
-      setSongs(sortedSongs);
-      setFilteredSongs(sortedSongs);
+      const offset = reset ? 0 : songsRef.current.length;
+      const page = await getHistoryPageFromDB(database, sortConfig, offset, PAGE_SIZE, filter);
+      if (version !== listVersionRef.current) return;
+      setSongs((prevSongs) => (reset ? page.songs : [...prevSongs, ...page.songs]));
+      setHasMore(page.hasMore);
     } catch (error) {
       console.error("Failed to fetch history:", error);
+    } finally {
+      if (version === listVersionRef.current) loadingRef.current = false;
     }
-  }, [sortConfig]);
+  }, [sortConfig, filter]);
 
+  /**
+   * Reloads the history from the first page.
+   */
+  const fetchHistory = useCallback(() => {
+    if (db) loadPage(db, true);
+  }, [db, loadPage]);
 
   /**
-   * Sorts the songs based on the provided sort configuration.
-   * @param songs The songs history to sort.
-   * @param sortConfig The sort configuration, containing the key to sort by and the sorting direction.
-   * @returns A sorted array of songs.
+   * Loads the page following the loaded songs.
    */
-  const sortSongs = (songs: Song[], sortConfig: { key: string; ascending: boolean }): Song[] => {
-    const sortedSongs = [...songs].sort((a, b) => {
-      if (sortConfig.key === "name") {
-        return a.name.localeCompare(b.name);
-      } else if (sortConfig.key === "album") {
-        return (a.album?.name || "").localeCompare(b.album?.name || "");
-      } else if (sortConfig.key === "date") {
-        return a.listenDate - b.listenDate;
-      } else if (sortConfig.key === "duration") {
-        return a.duration.milliseconds - b.duration.milliseconds;
-      }
-      return 0;
-    });
-    if (!sortConfig.ascending) sortedSongs.reverse();
-    return sortedSongs;
-  };
+  const handleLoadMore = useCallback(() => {
+    if (db) loadPage(db, false);
+  }, [db, loadPage]);
+
+  // Open the database on component mount, and purge the plays kept in the trash for longer than the retention.
+  useEffect(() => {
+    openDB()
+      .then((database) => {
+        setDb(database);
+        return purgeExpiredTrash(database);
+      })
+      .catch((error) => console.error("Failed to open database:", error));
+  }, []);
 
-  // Fetch history on component mount.
+  // Reload the list when the database opens, or the sort order or filters change.
   useEffect(() => {
     fetchHistory();
   }, [fetchHistory]);
 
+  // Clear the selection when the filters change, so bulk actions never apply to plays that are no longer listed.
+  useEffect(() => {
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  }, [filter]);
+
+  // Apply saved plays to the loaded songs instead of reloading the list.
+  useEffect(() => {
+    const handleHistoryUpdated = (event: Event) => {
+      const song = (event as CustomEvent<Song | undefined>).detail;
+      if (!song) {
+        fetchHistory();
+        return;
+      }
+      // The list sorted by play count is reloaded once the play counts change.
+      if (sortConfig.key === "plays") return;
+      setSongs((prevSongs) => {
+        const nextSongs = prevSongs.filter((loadedSong) => loadedSong.playId !== song.playId);
+        if (filter && !filter(song)) return nextSongs;
+        const index = nextSongs.findIndex((loadedSong) => compareSongs(song, loadedSong, sortConfig) < 0);
+        // A song sorting after every loaded one belongs to a page not read yet.
+        if (index === -1) return hasMore ? nextSongs : [...nextSongs, song];
+        return [...nextSongs.slice(0, index), song, ...nextSongs.slice(index)];
+      });
+    };
+
+    window.addEventListener(HISTORY_UPDATED_EVENT, handleHistoryUpdated);
+    return () => window.removeEventListener(HISTORY_UPDATED_EVENT, handleHistoryUpdated);
+  }, [filter, sortConfig, hasMore, fetchHistory]);
+
+  // Read the play counts of the "Plays" column, and again after changes to many plays.
+  useEffect(() => {
+    if (!db) return;
+    const fetchPlayCounts = () => {
+      getPlayCountsFromDB(db)
+        .then(setTrackPlayCounts)
+        .catch((error) => console.error("Failed to count plays:", error));
+    };
+    const handleHistoryUpdated = (event: Event) => {
+      if (!(event as CustomEvent<Song | undefined>).detail) fetchPlayCounts();
+    };
+
+    fetchPlayCounts();
+    window.addEventListener(HISTORY_UPDATED_EVENT, handleHistoryUpdated);
+    window.addEventListener(HISTORY_TRASHED_EVENT, fetchPlayCounts);
+    return () => {
+      window.removeEventListener(HISTORY_UPDATED_EVENT, handleHistoryUpdated);
+      window.removeEventListener(HISTORY_TRASHED_EVENT, fetchPlayCounts);
+    };
+  }, [db]);
+
+  // Recount the track of a saved play once the play reaches the play threshold. The extension saves an ongoing play many times,
+  // so a play already counted is not counted again, and the other saves leave the counts alone.
+  useEffect(() => {
+    if (!db) return;
+    const handleHistoryUpdated = async (event: Event) => {
+      const song = (event as CustomEvent<Song | undefined>).detail;
+      if (!song || song.skipped || countedPlayIdsRef.current.has(song.playId)) return;
+      countedPlayIdsRef.current.add(song.playId);
+      try {
+        const count = await getPlayCountFromDB(db, song.uri);
+        setTrackPlayCounts((prevCounts) => new Map(prevCounts).set(song.uri, count));
+        if (sortConfig.key === "plays") fetchHistory();
+      } catch (error) {
+        console.error("Failed to count plays:", error);
+      }
+    };
+
+    window.addEventListener(HISTORY_UPDATED_EVENT, handleHistoryUpdated);
+    return () => window.removeEventListener(HISTORY_UPDATED_EVENT, handleHistoryUpdated);
+  }, [db, sortConfig.key, fetchHistory]);
+
+  // Read the scrobble status of the loaded songs, and again whenever the queue changes.
+  useEffect(() => {
+    if (!db) return;
+    const fetchScrobbles = () => {
+      getScrobblesFromDB(db, songs.map((song) => song.playId))
+        .then(setScrobbles)
+        .catch((error) => console.error("Failed to fetch scrobbles:", error));
+    };
+
+    fetchScrobbles();
+    window.addEventListener(SCROBBLES_UPDATED_EVENT, fetchScrobbles);
+    return () => window.removeEventListener(SCROBBLES_UPDATED_EVENT, fetchScrobbles);
+  }, [db, songs]);
+
+  // Apply the display settings as soon as they are changed.
+  useEffect(() => {
+    const handleSettingsChanged = (event: Event) => setSettingsState((event as CustomEvent<HistorySettings>).detail);
+    window.addEventListener(SETTINGS_CHANGED_EVENT, handleSettingsChanged);
+    return () => window.removeEventListener(SETTINGS_CHANGED_EVENT, handleSettingsChanged);
+  }, []);
+
   // Event listeners for song change and play/pause.
   useEffect(() => {
     const handleSongChange = () => {
-      fetchHistory();
       const currentItem = Spicetify.Player.data?.item;
-      if (currentItem && currentItem.type === "track") {
-        currentPlayingUri.current = currentItem.uri;
-        currentPlayingUid.current = currentItem.uid;
+      if (currentItem && ["track", "episode", "chapter"].includes(currentItem.type)) {
+        setCurrentPlaying({ uri: currentItem.uri, uid: currentItem.uid });
       }
+      setIsPlaying(Spicetify.Player.isPlaying());
     };
 
+    handleSongChange();
     Spicetify.Player.addEventListener("onplaypause", handleSongChange);
     Spicetify.Player.addEventListener("songchange", handleSongChange);
     return () => {
       Spicetify.Player.removeEventListener("songchange", handleSongChange);
       Spicetify.Player.removeEventListener("onplaypause", handleSongChange);
     };
-  }, [fetchHistory]);
+  }, []);
 
-  // Input change for search query.
-  const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const query = event.target.value.toLowerCase();
+  /**
+   * Sets the search query, and applies it once typing has settled.
+   * @param query - The query as typed.
+   */
+  const changeSearch = (query: string) => {
     setSearchQuery(query);
   
     if (debounceTimeoutRef.current) {
       clearTimeout(debounceTimeoutRef.current);
     }
   
-  debounceTimeoutRef.current = setTimeout(() => {
-    const filtered = songs.filter(
-      (song) =>
-        song.name.toLowerCase().includes(query) ||
-        song.album?.name?.toLowerCase().includes(query) ||
-        song.artists?.some((artist) => artist.name.toLowerCase().includes(query))
-    );
-    setFilteredSongs(filtered);
-  }, 300);
+    debounceTimeoutRef.current = setTimeout(async () => {
+      const result = parseQuery(query);
+      if (!result.ok) {
+        setSearchError(result.error);
+        return;
+      }
+      setSearchError(null);
+      if (result.query.usesPlayCounts && db) {
+        try {
+          setPlayCounts(await getPlayCountsFromDB(db));
+        } catch (error) {
+          console.error("Failed to count plays:", error);
+        }
+      }
+      setAppliedQuery(result.query);
+    }, settings.searchDebounceMs);
+  };
+
+  // Input change for search query.
+  const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    changeSearch(event.target.value);
   };
 
+  // Apply the search passed in the URL, e.g. by "Show in listening history" in the context menu.
+  useEffect(() => {
+    const applyLocation = (location: { search?: string } | undefined) => {
+      const query = new URLSearchParams(location?.search ?? "").get(HISTORY_SEARCH_PARAM);
+      if (query === null) return;
+      setView("history");
+      changeSearch(query);
+    };
+
+    applyLocation(Spicetify.Platform.History.location);
+    return Spicetify.Platform.History.listen(applyLocation);
+  }, [db]);
+
   /**
    * Handles play/pause logic for a song.
    * If the song is paused, it resumes; if a different song is clicked, it plays from start.
-   * @param songUri - The URI of the song.
-   * @param songUid - The unique identifier for the song.
+   * @param song - The song to play or pause.
    */
-  const handlePlayPauseSong = (songUri: string, songUid: string) => {
+  const handlePlayPauseSong = (song: Song) => {
     if (Spicetify && Spicetify.Player) {
-      if (songUri === currentPlayingUri.current) {
+      if (song.uri === currentPlaying?.uri) {
         if (Spicetify.Player.isPlaying()) {
           Spicetify.Player.pause();
         } else {
           Spicetify.Player.play();
         }
       } else {
-        Spicetify.Player.playUri(songUri).then(() => {
-          currentPlayingUri.current = songUri;
-          currentPlayingUid.current = songUid;
+        Spicetify.Player.playUri(song.uri).then(() => {
+          setCurrentPlaying({ uri: song.uri, uid: song.uid });
         });
       }
     }
   };
 
   /**
-   * Formats a song duration (milliseconds) into a readable string (MM:SS).
-   * @param ms - Duration in milliseconds.
-   * @returns Formatted string.
+   * Handles resuming an episode or chapter where its play stopped.
+   * The position can only be set once the item is loaded, so it is set on the song change that follows, unless the item already plays.
+   * @param song - The play of the episode or chapter.
    */
-  const formatDuration = (ms: number) => {
-    const minutes = Math.floor(ms / 60000);
-    const seconds = ((ms % 60000) / 1000).toFixed(0);
-    return `${minutes}:${parseInt(seconds) < 10 ? "0" : ""}${seconds}`;
+  const handleResumeSong = async (song: Song) => {
+    const position = song.position;
+    if (position === undefined) return;
+    if (Spicetify.Player.data?.item?.uri === song.uri) {
+      Spicetify.Player.seek(position);
+      Spicetify.Player.play();
+      return;
+    }
+    const seekOnLoad = () => {
+      Spicetify.Player.removeEventListener("songchange", seekOnLoad);
+      if (Spicetify.Player.data?.item?.uri === song.uri) Spicetify.Player.seek(position);
+    };
+    Spicetify.Player.addEventListener("songchange", seekOnLoad);
+    try {
+      await Spicetify.Player.playUri(song.uri);
+      setCurrentPlaying({ uri: song.uri, uid: song.uid });
+    } catch (error) {
+      Spicetify.Player.removeEventListener("songchange", seekOnLoad);
+      console.error("Failed to resume:", error);
+      Spicetify.showNotification("Failed to resume", true);
+    }
+  };
+
+  /**
+   * Handles changing the play threshold, which applies to plays from now on.
+   * @param threshold - The new play threshold.
+   */
+  const handlePlayThresholdChange = (threshold: PlayThreshold) => {
+    if (isNaN(threshold.value) || threshold.value < 0) return;
+    setPlayThreshold(threshold);
+    setPlayThresholdState(threshold);
   };
 
   /**
-   * Handles clearing the history.
+   * Handles clearing the history, once confirmed. The plays go to the trash, so clearing can be undone.
    */
   const handleClearHistory = async () => {
     if (db) {
+      if (!(await confirmAction("Clear History", "Move your whole listening history to the trash?", "Clear history"))) return;
       try {
         await clearHistoryFromDB(db);
-        fetchHistory();
+        listVersionRef.current++;
+        setSongs([]);
+        setSelectedIds(new Set());
+        setHasMore(false);
       } catch (error) {
         console.error("Failed to clear history:", error);
       }
@@ -158,62 +439,223 @@ const App: React.FC = () => {
   };
 
   /**
-   * Handles exporting the history.
+   * Handles exporting the history, offering to export only the plays the list is filtered to.
    */
-  const handleExportHistory = async () => {
+  const handleExportHistory = () => {
     if (db) {
-      try {
-        await exportHistoryAsFile(db);
-      } catch (error) {
-        console.error("Failed to export history:", error);
-      }
+      // Hiding skipped plays only changes the list, so exports keep them.
+      showExportModal(db, searchFilter);
+    } else {
+      Spicetify.showNotification("Database not ready");
     }
   };
 
   /** 
    * Handles importing the history.
   */
-  const handleImportHistory = async (file: File) => {
+  const handleImportHistory = () => {
     if (db) {
-      try {
-        await importHistoryAsFile(db, file);
-        fetchHistory();
-        Spicetify.PopupModal.hide();
-      } catch (error) {
-        console.error("Failed to import history:", error);
-      }
+      showImportModal(db);
     } else {
       Spicetify.showNotification("Database not ready");
     }
   };
 
   /**
-   * Handles deleting a song from the history.
-   * @param songUid - The unique identifier for the song to delete.
+   * Handles saving the listed plays as a playlist. Every play passing the filter is used, not only the loaded ones.
    */
-  const handleDeleteSong = async (songUid: string) => {
+  const handleSaveAsPlaylist = () => {
+    if (db) {
+      const getSongs = async () => (await getHistoryPageFromDB(db, sortConfig, 0, Number.MAX_SAFE_INTEGER, filter)).songs;
+      showPlaylistModal(getSongs, filter ? "the plays in the current list" : "your whole history");
+    } else {
+      Spicetify.showNotification("Database not ready");
+    }
+  };
+
+  /**
+   * Handles opening the scrobbling settings.
+   */
+  const handleScrobbleSettings = () => {
+    if (db) {
+      showScrobbleModal(db);
+    } else {
+      Spicetify.showNotification("Database not ready");
+    }
+  };
+
+  /**
+   * Handles deleting a single play from the history.
+   * @param song - The play to delete.
+   */
+  const handleDeleteSong = async (song: Song) => {
     if (db) {
       try {
-        await deleteSongFromDB(db, songUid);
-        fetchHistory();
+        await deleteSongFromDB(db, song.playId);
+        setSongs((prevSongs) => prevSongs.filter((loadedSong) => loadedSong.playId !== song.playId));
+        setSelectedIds((prevSelected) => {
+          const nextSelected = new Set(prevSelected);
+          nextSelected.delete(song.playId);
+          return nextSelected;
+        });
       } catch (error) {
         console.error("Failed to delete song:", error);
       }
     }
   };
 
+  /**
+   * Handles selecting or unselecting a song. A shift-click selects every loaded song between the last clicked one and this one.
+   * @param song - The clicked song.
+   * @param index - The index of the song in the loaded songs.
+   * @param range - Whether to select a range instead of toggling the song.
+   */
+  const handleSelectSong = (song: Song, index: number, range: boolean) => {
+    const anchor = selectionAnchorRef.current;
+    setSelectedIds((prevSelected) => {
+      const nextSelected = new Set(prevSelected);
+      if (range && anchor !== null) {
+        for (let i = Math.min(anchor, index); i <= Math.max(anchor, index) && i < songs.length; i++) {
+          nextSelected.add(songs[i].playId);
+        }
+      } else if (nextSelected.has(song.playId)) {
+        nextSelected.delete(song.playId);
+      } else {
+        nextSelected.add(song.playId);
+      }
+      return nextSelected;
+    });
+    selectionAnchorRef.current = index;
+  };
+
+  /**
+   * Handles the "select all" checkbox: selects every play passing the filter, including the ones not loaded yet,
+   * or clears the selection when every loaded song is already selected.
+   */
+  const handleSelectAll = async () => {
+    if (!db) return;
+    if (songs.length > 0 && songs.every((song) => selectedIds.has(song.playId))) {
+      setSelectedIds(new Set());
+      return;
+    }
+    try {
+      const page = await getHistoryPageFromDB(db, sortConfig, 0, Number.MAX_SAFE_INTEGER, filter);
+      setSelectedIds(new Set(page.songs.map((song) => song.playId)));
+    } catch (error) {
+      console.error("Failed to select songs:", error);
+    }
+  };
+
+  /**
+   * Reads every selected play, in list order.
+   * @returns A promise that resolves to the selected songs.
+   */
+  const getSelectedSongs = async (): Promise<Song[]> => {
+    if (!db) return [];
+    const ids = selectedIds;
+    return (await getHistoryPageFromDB(db, sortConfig, 0, Number.MAX_SAFE_INTEGER, (song) => ids.has(song.playId))).songs;
+  };
+
+  /**
+   * Handles deleting the selected plays in a single transaction.
+   */
+  const handleDeleteSelected = async () => {
+    if (!db) return;
+    if (!(await confirmAction("Delete Plays", `Move the ${selectedIds.size} selected plays to the trash?`, "Delete"))) return;
+    try {
+      await deletePlaysFromDB(db, [...selectedIds]);
+      setSelectedIds(new Set());
+    } catch (error) {
+      console.error("Failed to delete plays:", error);
+      Spicetify.showNotification("Failed to delete plays", true);
+    }
+  };
+
+  /**
+   * Handles adding the tracks of the selected plays to the queue, in list order.
+   */
+  const handleQueueSelected = async () => {
+    try {
+      const selectedSongs = await getSelectedSongs();
+      await Spicetify.addToQueue(selectedSongs.map((song) => ({ uri: song.uri })));
+      Spicetify.showNotification(`Added ${selectedSongs.length} tracks to the queue`);
+    } catch (error) {
+      console.error("Failed to add to queue:", error);
+      Spicetify.showNotification("Failed to add to queue", true);
+    }
+  };
+
+  /**
+   * Handles exporting the selected plays.
+   */
+  const handleExportSelected = () => {
+    if (!db) return;
+    const ids = selectedIds;
+    showExportModal(db, (song) => ids.has(song.playId), "Only the selected plays");
+  };
+
+  /**
+   * Handles saving the selected plays as a playlist.
+   */
+  const handleSaveSelectedAsPlaylist = () => {
+    showPlaylistModal(getSelectedSongs, "the selected plays");
+  };
+
+  /**
+   * Handles opening the deletion of a date range or an artist.
+   */
+  const handleBulkDelete = () => {
+    if (db) {
+      showBulkDeleteModal(db);
+    } else {
+      Spicetify.showNotification("Database not ready");
+    }
+  };
+
   /**
    * Sorts the songs based on the provided key.
    * If the same key is clicked, it toggles the sorting direction.
    * @param key - The key to sort by.
    */
-  const sortByColumn = (key: string) => {
+  const sortByColumn = (key: SortKey) => {
     setSortConfig((prevSortConfig) => ({
       key,
       ascending: prevSortConfig.key === key ? !prevSortConfig.ascending : true,
     }));
   };
 
+  /**
+   * Handles selecting a slot in the charts by showing the plays of that slot in the history list.
+   * @param slot - The selected day or hour slot.
+   */
+  const handleSelectSlot = (slot: ListeningSlot) => {
+    setSlotFilter(slot);
+    setView("history");
+  };
+
+  /**
+   * Handles selecting a source in the stats by showing the plays from that source in the history list.
+   * @param uri - The URI of the playlist, album or other source.
+   */
+  const handleSelectSource = (uri: string) => {
+    changeSearch(`from:${uri}`);
+    setView("history");
+  };
+
+  /**
+   * Handles closing the track details.
+   */
+  const handleCloseDetails = useCallback(() => setDetailUri(null), []);
+
+  /**
+   * Handles showing the plays of a track from its details in the history list.
+   * @param uri - The URI of the track.
+   */
+  const handleShowTrackInHistory = (uri: string) => {
+    changeSearch(`uri:${uri}`);
+    setView("history");
+  };
+
   return (
     <div className="historyPage">
       {/* Header Section */}
@@ -221,147 +663,147 @@ const App: React.FC = () => {
         <h1>History</h1>
       </div>
 
-      {/* Controls Section */}
-      <div className="controls">
-        {/* Buttons for clearing, exporting, and importing history */}
-        <div className="buttonsContainer">
-          <button onClick={handleClearHistory}>Clear history</button>
-          <button onClick={handleExportHistory}>Export history</button>
-          <button onClick={() => {
-              Spicetify.PopupModal.display({
-                title: "Import History",
-                content: `
-                  <div id="import_history_modal">
-                    <div class="fileInputContainer">
-                      <label for="import_file_input" class="custom-file-upload">&#10514;</label>
-                      <input 
-                        id="import_file_input" 
-                        type="file" 
-                        name="file" 
-                        accept=".json"
-                        required 
-                      />
-                    </div>
-                    <button id="import_history_button">Import</button>
-                  </div>
-                `,
-              });
-
-              setTimeout(() => {
-                const importHistoryModalContainer = document.querySelector(".main-trackCreditsModal-container");
-                const importHistoryModal = document.getElementById("import_history_modal") as HTMLDivElement;
-                const fileInput = document.getElementById("import_file_input") as HTMLInputElement;
-                const importButton = document.getElementById("import_history_button") as HTMLButtonElement;
-
-                if (!importHistoryModalContainer || !importHistoryModal || !fileInput || !importButton) {
-                  Spicetify.showNotification("Modal not found");
-                  console.error("Modal elements not found, retrying...");
-                  return;
-                }
-
-                importHistoryModalContainer.classList.add("importHistoryModalContainer")
-                importHistoryModal.classList.add("importHistoryModal");
-                fileInput.classList.add("fileInput");
-                importButton.classList.add("importButton");
-                importButton.addEventListener("click", async () => {
-                  if (!fileInput.files || fileInput.files.length === 0) {
-                    Spicetify.showNotification("Please select a file");
-                    return;
-                  }
-                  const file = fileInput.files[0];
-                  await handleImportHistory(file);
-                });
-              }, 100);
-            }}
-          >
-            Import history
+      {/* View Tabs */}
+      <div className="viewTabs">
+        {VIEWS.map(({ key, label }) => (
+          <button key={key} className={view === key ? "active" : ""} onClick={() => setView(key)}>
+            {label}
           </button>
-        </div>
-
-        {/* Search input for filtering songs */}
-        <div className="searchContainer">
-          <input
-            type="text"
-            placeholder="Search history..."
-            value={searchQuery}
-            onChange={handleSearchChange}
-            className="searchInput"
-          />
-        </div>
+        ))}
       </div>
 
-      {/* Song List */}
-      <div className="songList">
-        {/* Header Row */}
-        <div className="songListHeaderRow">
-          <div className="headerIndex">#</div>
-          <div onClick={() => sortByColumn("name")} className="headerTitle">Title</div>
-          <div onClick={() => sortByColumn("album")} className="headerAlbum">Album</div>
-          <div onClick={() => sortByColumn("date")} className="headerDate">Date Added</div>
-          <div onClick={() => sortByColumn("duration")} className="headerDuration">Duration</div>
-          <div></div>
-        </div>
-
-        {filteredSongs.length === 0 ? (
-          <p>No history available.</p>
-        ) : (
-          filteredSongs.map((song, index) => (
-            <div key={song.uid || index} className="songRow">
-              {/* Column 1: Index */}
-              <div className="songIndex">
-                <span className="indexNumber">{index + 1}</span>
-                <span
-                  className="playPauseIcon"
-                  onClick={() => handlePlayPauseSong(song.uri, song.uid)}
+      {view === "sessions" && db && <SessionsView db={db} settings={settings} />}
+
+      {view === "stats" && db && <StatsView db={db} onSelectSource={handleSelectSource} />}
+
+      {view === "charts" && db && <ChartsView db={db} settings={settings} onSelectSlot={handleSelectSlot} />}
+
+      {view === "rediscover" && db && <RediscoverView db={db} onShowDetails={setDetailUri} settings={settings} />}
+
+      {view === "tracking" && <TrackingRulesView />}
+
+      {view === "trash" && db && <TrashView db={db} settings={settings} />}
+
+      {view === "storage" && db && <StorageView db={db} />}
+
+      {view === "restore" && db && <RestorePointsView db={db} settings={settings} />}
+
+      {view === "sync" && db && <SyncView db={db} settings={settings} />}
+
+      {view === "settings" && <SettingsView />}
+
+      {view === "history" && (
+        <>
+          {/* Controls Section */}
+          <div className="controls">
+            {/* Buttons for clearing, exporting, and importing history */}
+            <div className="buttonsContainer">
+              <button onClick={handleClearHistory}>Clear history</button>
+              <button onClick={handleBulkDelete}>Delete plays...</button>
+              <button onClick={handleExportHistory}>Export history</button>
+              <button onClick={handleImportHistory}>Import history</button>
+              <button onClick={handleSaveAsPlaylist}>Save as playlist</button>
+              <button onClick={handleScrobbleSettings}>Scrobbling</button>
+            </div>
+
+            {/* Play threshold and skipped plays visibility */}
+            <div className="trackingContainer">
+              <label>
+                Count plays after
+                <input
+                  type="number"
+                  min={0}
+                  max={playThreshold.mode === "percent" ? 100 : undefined}
+                  value={playThreshold.value}
+                  onChange={(event) => handlePlayThresholdChange({ ...playThreshold, value: parseInt(event.target.value) })}
+                  className="thresholdInput"
+                />
+                <select
+                  value={playThreshold.mode}
+                  onChange={(event) => handlePlayThresholdChange({ ...playThreshold, mode: event.target.value as PlayThreshold["mode"] })}
                 >
-                  <svg
-                    dangerouslySetInnerHTML={{
-                      __html:
-                        (song.uid === currentPlayingUid.current || song.uri === currentPlayingUri.current) && Spicetify.Player.isPlaying()
-                          ? Spicetify.SVGIcons["pause"]
-                          : Spicetify.SVGIcons["play"]
-                    }}
-                  />
-                </span>
-              </div>
-              {/* Column 2: Image, Title and Artist */}
-              <div className="songDetails">
-                <div className="songImageContainer">
-                  <img
-                    src={song.images?.[0]?.url || "/default-image.png"}
-                    alt={song.name}
-                    className="songImage"
-                  />
-                </div>
-                <div className="songDetailsText">
-                  <div className="songName" title={song.name}>
-                    {song.name.length > 50 ? `${song.name.substring(0, 50)}...` : song.name}
-                  </div>
-                  <div className="songArtist" onClick={() => Spicetify.Platform.History.push(`/artist/${song.artists?.[0].uri.split(":")[2]}`)}>
-                    {song.artists?.map((a: { name: string }) => a.name).join(", ")}
-                  </div>
-                </div>
-              </div>
-              {/* Column 3: Album */}
-              <div className="songAlbum" onClick={() => Spicetify.Platform.History.push(`/album/${song.album?.uri.split(":")[2]}`)}>
-                {song.album?.name.length > 50 ? `${song.album?.name.substring(0, 50)}...` : song.album?.name}
-              </div>
-              {/* Column 4: Date Added */}
-              <div className="songDate">
-                {song.listenDate ? new Date(song.listenDate).toLocaleDateString() : ""}
-              </div>
-              {/* Column 5: Duration */}
-              <div className="songDuration">
-                {formatDuration(song.duration.milliseconds)}
-              </div>
-              {/* Column 6: Actions */}
-              <div className="songActions">
-                <button onClick={() => handleDeleteSong(song.uid)}>Delete</button>
-              </div>
+                  <option value="seconds">seconds</option>
+                  <option value="percent">%</option>
+                </select>
+              </label>
+              <label>
+                <input type="checkbox" checked={showSkipped} onChange={(event) => setShowSkipped(event.target.checked)} />
+                Show skipped
+              </label>
+              <select value={mediaFilter} onChange={(event) => setMediaFilter(event.target.value as MediaType | "all")}>
+                {MEDIA_FILTERS.map(({ key, label }) => (
+                  <option key={key} value={key}>{label}</option>
+                ))}
+              </select>
             </div>
-          ))
-        )}
-      </div>
+
+            {/* Search input for filtering songs */}
+            <div className="searchContainer">
+              <input
+                type="text"
+                placeholder="Search history..."
+                title={'Filters: artist:, album:, title:, uri:, from:"playlist name", before:YYYY-MM-DD, after:YYYY-MM-DD, duration>5:00, plays>10, "quoted phrase", -term to exclude'}
+                value={searchQuery}
+                onChange={handleSearchChange}
+                className={searchError ? "searchInput invalid" : "searchInput"}
+              />
+              {searchError && <div className="searchError">{searchError}</div>}
+            </div>
+          </div>
+
+          {/* Slot selected in the charts */}
+          {slotFilter && (
+            <div className="slotFilter">
+              Showing plays on {describeSlot(slotFilter, settings)}
+              <button onClick={() => setSlotFilter(null)}>Show all</button>
+            </div>
+          )}
+
+          {/* Actions on the selected plays */}
+          {selectedIds.size > 0 && (
+            <div className="selectionBar">
+              <span>{selectedIds.size} selected</span>
+              <button onClick={handleDeleteSelected}>Delete</button>
+              <button onClick={handleQueueSelected}>Add to queue</button>
+              <button onClick={handleExportSelected}>Export</button>
+              <button onClick={handleSaveSelectedAsPlaylist}>Save as playlist</button>
+              <button onClick={() => setSelectedIds(new Set())}>Clear selection</button>
+            </div>
+          )}
+
+          {/* Song List */}
+          <SongList
+            songs={songs}
+            hasMore={hasMore}
+            onLoadMore={handleLoadMore}
+            onSort={sortByColumn}
+            isPlayingSong={(song) => song.uid === currentPlaying?.uid || song.uri === currentPlaying?.uri}
+            onPlayPause={handlePlayPauseSong}
+            onDelete={handleDeleteSong}
+            onResume={handleResumeSong}
+            selected={selectedIds}
+            onSelect={handleSelectSong}
+            onSelectAll={handleSelectAll}
+            scrobbles={scrobbles}
+            playCounts={trackPlayCounts}
+            onShowDetails={(song) => setDetailUri(song.uri)}
+            settings={settings}
+          />
+        </>
+      )}
+
+      {db && detailUri && (
+        <TrackDetailsDrawer
+          db={db}
+          uri={detailUri}
+          onClose={handleCloseDetails}
+          onSelectTrack={setDetailUri}
+          onShowInHistory={handleShowTrackInHistory}
+          settings={settings}
+        />
+      )}
+
+      {db && <UndoSnackbar db={db} />}
     </div>
   );
 };
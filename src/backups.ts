@@ -0,0 +1,158 @@
+/**
+ * backups.ts
+ *
+ * This module takes automatic snapshots of the history. The extension checks every hour whether a backup is due,
+ * takes a restore point when it is, keeps only the most recent ones, and optionally downloads it as a backup file.
+ * Unlike the history export, a backup file keeps the plays rolled up by retention; it can be imported back like any export.
+ *
+ * The settings are stored in Spicetify.LocalStorage so that the app and the extension share them.
+ */
+
+import {
+    Song,
+    DailyAggregate,
+    createRestorePointInDB,
+    getRestorePointsFromDB,
+    getRestorePointContentFromDB,
+    RestorePoint,
+    RestorePointReason,
+    toDateKey,
+} from "./db";
+
+export type BackupSchedule = "off" | "daily" | "weekly";
+
+/**
+ * The schedules offered for automatic backups, with their descriptions.
+ */
+export const BACKUP_SCHEDULES: { schedule: BackupSchedule; label: string }[] = [
+    { schedule: "off", label: "Never" },
+    { schedule: "daily", label: "Every day" },
+    { schedule: "weekly", label: "Every week" },
+];
+
+/**
+ * The settings of automatic backups.
+ */
+export interface BackupConfig {
+    schedule: BackupSchedule;
+    /** The number of restore points kept; older ones are deleted. */
+    keep: number;
+    /** Whether each automatic backup is also downloaded as a file. */
+    download: boolean;
+}
+
+/**
+ * A downloaded backup: the plays of a restore point, and its plays rolled up by retention.
+ */
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    /** The time the restore point was taken. */
+    createdAt: number;
+    songs: Song[];
+    aggregates: DailyAggregate[];
+}
+
+/**
+ * The format of backup files, which the importer recognizes.
+ */
+export const BACKUP_FORMAT = "spicetify-history-backup";
+
+const BACKUP_CONFIG_KEY = "spicetify-history:backups";
+
+// Each restore point copies the whole history, so automatic backups are off until the user picks a schedule.
+export const DEFAULT_BACKUP_CONFIG: BackupConfig = { schedule: "off", keep: 5, download: false };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCHEDULE_INTERVALS: Record<Exclude<BackupSchedule, "off">, number> = {
+    daily: DAY_MS,
+    weekly: 7 * DAY_MS,
+};
+
+// How often the extension checks whether a backup is due.
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Reads the backup settings, falling back to the defaults for missing or invalid values.
+ *
+ * @returns The current backup settings.
+ */
+export const getBackupConfig = (): BackupConfig => {
+    try {
+        const stored = JSON.parse(Spicetify.LocalStorage.get(BACKUP_CONFIG_KEY) || "null");
+        return {
+            schedule: BACKUP_SCHEDULES.some(({ schedule }) => schedule === stored?.schedule) ? stored.schedule : DEFAULT_BACKUP_CONFIG.schedule,
+            keep: typeof stored?.keep === "number" && stored.keep >= 1 ? stored.keep : DEFAULT_BACKUP_CONFIG.keep,
+            download: typeof stored?.download === "boolean" ? stored.download : DEFAULT_BACKUP_CONFIG.download,
+        };
+    } catch (error) {
+        console.error("Invalid backup settings:", error);
+    }
+    return DEFAULT_BACKUP_CONFIG;
+};
+
+/**
+ * Stores the backup settings.
+ *
+ * @param config - The new backup settings.
+ */
+export const setBackupConfig = (config: BackupConfig): void => {
+    Spicetify.LocalStorage.set(BACKUP_CONFIG_KEY, JSON.stringify(config));
+};
+
+/**
+ * Takes a restore point, keeping only the most recent ones.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param reason - Why the restore point is taken.
+ * @returns A promise that resolves to the new restore point.
+ */
+export const createRestorePoint = (db: IDBDatabase, reason: RestorePointReason): Promise<RestorePoint> =>
+    createRestorePointInDB(db, reason, reason === "before-restore" ? undefined : getBackupConfig().keep);
+
+/**
+ * Downloads a restore point as a backup file.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param restorePoint - The restore point to download.
+ * @returns A promise that resolves once the download is triggered.
+ */
+export const downloadBackup = async (db: IDBDatabase, restorePoint: RestorePoint): Promise<void> => {
+    const backup: BackupFile = { format: BACKUP_FORMAT, createdAt: restorePoint.id, ...(await getRestorePointContentFromDB(db, restorePoint.id)) };
+    const url = URL.createObjectURL(new Blob([JSON.stringify(backup)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `spicetify-history-backup-${toDateKey(restorePoint.id)}.json`;
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Takes a scheduled backup if the last restore point is older than the schedule.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A promise that resolves to the new restore point, or undefined if no backup was due.
+ */
+export const runScheduledBackup = async (db: IDBDatabase): Promise<RestorePoint | undefined> => {
+    const config = getBackupConfig();
+    if (config.schedule === "off") return undefined;
+    const [latest] = await getRestorePointsFromDB(db);
+    if (latest && Date.now() - latest.id < SCHEDULE_INTERVALS[config.schedule]) return undefined;
+
+    const restorePoint = await createRestorePoint(db, "scheduled");
+    console.log("Restore point created:", new Date(restorePoint.id).toLocaleString());
+    if (config.download) await downloadBackup(db, restorePoint);
+    return restorePoint;
+};
+
+/**
+ * Starts taking scheduled backups: once now, and again whenever one is due.
+ *
+ * @param db - The open IndexedDB database instance.
+ */
+export const startBackupScheduler = (db: IDBDatabase): void => {
+    const check = () => runScheduledBackup(db).catch((error) => console.error("Failed to take a scheduled backup:", error));
+    check();
+    setInterval(check, CHECK_INTERVAL_MS);
+};
@@ -0,0 +1,101 @@
+/**
+ * bulkDeleteModal.ts
+ *
+ * The "Delete Plays" modal. The user deletes every play in a date range, or every play by an artist.
+ * Each deletion runs in a single IndexedDB transaction, so it either removes all the plays or none of them.
+ * Deleted plays go to the trash, from which the deletion can be undone.
+ */
+
+import { deletePlaysInRangeFromDB, deletePlaysByUriFromDB, getArtistsFromDB, Deletion } from "./db";
+import { parseDateInput } from "./format";
+import { confirmAction } from "./confirmModal";
+
+/**
+ * Displays the "Delete Plays" modal.
+ *
+ * @param db - The open IndexedDB database instance.
+ */
+export const showBulkDeleteModal = (db: IDBDatabase): void => {
+  const bulkDeleteModal = document.createElement("div");
+  bulkDeleteModal.className = "bulkDeleteModal";
+  bulkDeleteModal.innerHTML = `
+    <h2>Plays in a date range</h2>
+    <div class="bulkDeleteRow">
+      <input type="date" class="bulkDeleteFrom" />
+      <span>to</span>
+      <input type="date" class="bulkDeleteTo" />
+      <button class="importButton bulkDeleteRangeButton">Delete</button>
+    </div>
+    <h2>Plays by an artist</h2>
+    <div class="bulkDeleteRow">
+      <select class="bulkDeleteArtist" disabled>
+        <option value="">Loading artists...</option>
+      </select>
+      <button class="importButton bulkDeleteArtistButton">Delete</button>
+    </div>
+  `;
+
+  const fromInput = bulkDeleteModal.querySelector(".bulkDeleteFrom") as HTMLInputElement;
+  const toInput = bulkDeleteModal.querySelector(".bulkDeleteTo") as HTMLInputElement;
+  const rangeButton = bulkDeleteModal.querySelector(".bulkDeleteRangeButton") as HTMLButtonElement;
+  const artistSelect = bulkDeleteModal.querySelector(".bulkDeleteArtist") as HTMLSelectElement;
+  const artistButton = bulkDeleteModal.querySelector(".bulkDeleteArtistButton") as HTMLButtonElement;
+
+  getArtistsFromDB(db)
+    .then((artists) => {
+      if (artists.length === 0) {
+        artistSelect.innerHTML = `<option value="">No artists</option>`;
+        return;
+      }
+      artistSelect.replaceChildren(...artists.map((artist) => new Option(artist.name, artist.uri)));
+      artistSelect.disabled = false;
+    })
+    .catch(() => {
+      artistSelect.innerHTML = `<option value="">Could not load artists</option>`;
+    });
+
+  /**
+   * Runs a deletion once confirmed, reporting how many plays it removed.
+   * @param description - The plays deleted, shown in the confirmation.
+   * @param deletePlays - The deletion.
+   */
+  const runDeletion = async (description: string, deletePlays: () => Promise<Deletion>) => {
+    if (!(await confirmAction("Delete Plays", `Move ${description} to the trash?`, "Delete"))) return;
+    try {
+      const { count } = await deletePlays();
+      Spicetify.showNotification(count ? `Moved ${count} plays to the trash` : "No plays to delete");
+    } catch (error) {
+      console.error("Failed to delete plays:", error);
+      Spicetify.showNotification("Failed to delete plays", true);
+    }
+  };
+
+  rangeButton.addEventListener("click", () => {
+    if (!fromInput.value && !toInput.value) {
+      Spicetify.showNotification("Please pick a start or end date");
+      return;
+    }
+    const range = [fromInput.value && `from ${fromInput.value}`, toInput.value && `to ${toInput.value}`].filter(Boolean).join(" ");
+    runDeletion(`every play ${range}`, () =>
+      deletePlaysInRangeFromDB(db, parseDateInput(fromInput.value, false), parseDateInput(toInput.value, true))
+    );
+  });
+
+  artistButton.addEventListener("click", () => {
+    if (!artistSelect.value) {
+      Spicetify.showNotification("Please select an artist");
+      return;
+    }
+    const artist = artistSelect.selectedOptions[0]?.text ?? "this artist";
+    runDeletion(`every play by ${artist}`, () => deletePlaysByUriFromDB(db, artistSelect.value));
+  });
+
+  Spicetify.PopupModal.display({
+    title: "Delete Plays",
+    content: bulkDeleteModal,
+  });
+
+  setTimeout(() => {
+    document.querySelector(".main-trackCreditsModal-container")?.classList.add("bulkDeleteModalContainer");
+  }, 100);
+};
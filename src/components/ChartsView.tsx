@@ -0,0 +1,181 @@
+import React, { useEffect, useState, useCallback } from "react";
+import { getActivityFromDB, ListeningActivity, toDateKey, HISTORY_UPDATED_EVENT } from "../db";
+import { formatListeningTime } from "../format";
+import { HistorySettings, formatDate } from "../settings";
+
+const WEEKS = 53;
+const CELL = 12;
+const GAP = 3;
+const LABEL_WIDTH = 32;
+const LABEL_HEIGHT = 16;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * A slot of the charts the history list can be filtered to: a single day, or an hour of a given day of the week.
+ */
+export type ListeningSlot =
+  | { type: "day"; from: number; to: number }
+  | { type: "hour"; weekday: number; hour: number; from: number };
+
+/**
+ * Checks whether a listen date falls into a slot.
+ * @param listenDate - The listen date to check.
+ * @param slot - The slot to check against.
+ * @returns True if the listen date is in the slot.
+ */
+export const isInSlot = (listenDate: number, slot: ListeningSlot): boolean => {
+  if (slot.type === "day") return listenDate >= slot.from && listenDate <= slot.to;
+  const date = new Date(listenDate);
+  return listenDate >= slot.from && date.getDay() === slot.weekday && date.getHours() === slot.hour;
+};
+
+/**
+ * Describes a slot for the filter shown above the history list.
+ * @param slot - The slot to describe.
+ * @param settings - The display settings, for the date format.
+ * @returns A readable description.
+ */
+export const describeSlot = (slot: ListeningSlot, settings: HistorySettings): string => {
+  if (slot.type === "day") return formatDate(slot.from, settings);
+  return `${WEEKDAYS[slot.weekday]}, ${slot.hour}:00–${slot.hour + 1}:00`;
+};
+
+/**
+ * Returns the fill opacity of a cell, from faint for little listening to full for the busiest cell.
+ * @param value - The listening time of the cell.
+ * @param max - The listening time of the busiest cell.
+ */
+const intensity = (value: number, max: number): number => (value > 0 && max > 0 ? 0.2 + 0.8 * (value / max) : 0);
+
+/**
+ * A chart cell, filled with the theme accent color scaled by the listening time.
+ */
+const Cell: React.FC<{ x: number; y: number; size: number; value: number; max: number; label: string; onClick: () => void }> = ({ x, y, size, value, max, label, onClick }) => (
+  <g className="chartCell" onClick={onClick}>
+    <rect x={x} y={y} width={size} height={size} rx={2} className="chartCellEmpty" />
+    {value > 0 && <rect x={x} y={y} width={size} height={size} rx={2} className="chartCellFilled" fillOpacity={intensity(value, max)} />}
+    <title>{label}</title>
+  </g>
+);
+
+/**
+ * A calendar heatmap of daily listening time over the last year, and a day-of-week × hour-of-day grid over the same period.
+ * Clicking a cell filters the history list to that day or hour slot.
+ */
+const ChartsView: React.FC<{ db: IDBDatabase; settings: HistorySettings; onSelectSlot: (slot: ListeningSlot) => void }> = ({ db, settings, onSelectSlot }) => {
+  // Listening activity of the charted period
+  const [activity, setActivity] = useState<ListeningActivity | null>(null);
+
+  // The heatmap starts on the Sunday 52 weeks before the current week.
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const start = new Date(today);
+  start.setDate(today.getDate() - today.getDay() - (WEEKS - 1) * 7);
+  const startTime = start.getTime();
+
+  /**
+   * Fetches the listening activity since the start of the heatmap.
+   */
+  const fetchActivity = useCallback(async () => {
+    try {
+      setActivity(await getActivityFromDB(db, startTime));
+    } catch (error) {
+      console.error("Failed to fetch listening activity:", error);
+    }
+  }, [db, startTime]);
+
+  useEffect(() => {
+    fetchActivity();
+    window.addEventListener(HISTORY_UPDATED_EVENT, fetchActivity);
+    return () => window.removeEventListener(HISTORY_UPDATED_EVENT, fetchActivity);
+  }, [fetchActivity]);
+
+  if (!activity) return null;
+
+  // Calendar heatmap cells, one column per week.
+  const days: { date: Date; week: number; value: number }[] = [];
+  for (let date = new Date(start), index = 0; date <= today; date.setDate(date.getDate() + 1), index++) {
+    days.push({ date: new Date(date), week: Math.floor(index / 7), value: activity.daily[toDateKey(date.getTime())] ?? 0 });
+  }
+  const maxDaily = Math.max(0, ...days.map((day) => day.value));
+  const totalDaily = days.reduce((total, day) => total + day.value, 0);
+  const monthLabels = days.filter((day) => day.date.getDate() === 1);
+
+  const maxHourly = Math.max(0, ...activity.hourly.map((hours) => Math.max(...hours)));
+
+  return (
+    <div className="chartsView">
+      <div className="chart">
+        <h2>{formatListeningTime(totalDaily)} listened in the last year</h2>
+        <svg
+          width={LABEL_WIDTH + WEEKS * (CELL + GAP)}
+          height={LABEL_HEIGHT + 7 * (CELL + GAP)}
+          className="calendarHeatmap"
+        >
+          {monthLabels.map((day) => (
+            <text key={day.date.getTime()} x={LABEL_WIDTH + day.week * (CELL + GAP)} y={LABEL_HEIGHT - 4} className="chartLabel">
+              {MONTHS[day.date.getMonth()]}
+            </text>
+          ))}
+          {[1, 3, 5].map((weekday) => (
+            <text key={weekday} x={0} y={LABEL_HEIGHT + weekday * (CELL + GAP) + CELL - 2} className="chartLabel">
+              {WEEKDAYS[weekday]}
+            </text>
+          ))}
+          {days.map((day) => (
+            <Cell
+              key={day.date.getTime()}
+              x={LABEL_WIDTH + day.week * (CELL + GAP)}
+              y={LABEL_HEIGHT + day.date.getDay() * (CELL + GAP)}
+              size={CELL}
+              value={day.value}
+              max={maxDaily}
+              label={`${formatDate(day.date.getTime(), settings)}: ${formatListeningTime(day.value)}`}
+              onClick={() => onSelectSlot({
+                type: "day",
+                from: day.date.getTime(),
+                // The next local midnight, as days are not all 24 hours long when daylight saving time changes.
+                to: new Date(day.date.getFullYear(), day.date.getMonth(), day.date.getDate() + 1).getTime() - 1,
+              })}
+            />
+          ))}
+        </svg>
+      </div>
+
+      <div className="chart">
+        <h2>Listening by day and hour</h2>
+        <svg
+          width={LABEL_WIDTH + 24 * (CELL * 2 + GAP)}
+          height={LABEL_HEIGHT + 7 * (CELL * 2 + GAP)}
+          className="hourGrid"
+        >
+          {[0, 6, 12, 18].map((hour) => (
+            <text key={hour} x={LABEL_WIDTH + hour * (CELL * 2 + GAP)} y={LABEL_HEIGHT - 4} className="chartLabel">
+              {hour}:00
+            </text>
+          ))}
+          {WEEKDAYS.map((name, weekday) => (
+            <g key={name}>
+              <text x={0} y={LABEL_HEIGHT + weekday * (CELL * 2 + GAP) + CELL + 4} className="chartLabel">{name}</text>
+              {activity.hourly[weekday].map((value, hour) => (
+                <Cell
+                  key={hour}
+                  x={LABEL_WIDTH + hour * (CELL * 2 + GAP)}
+                  y={LABEL_HEIGHT + weekday * (CELL * 2 + GAP)}
+                  size={CELL * 2}
+                  value={value}
+                  max={maxHourly}
+                  label={`${name} ${hour}:00–${hour + 1}:00: ${formatListeningTime(value)}`}
+                  onClick={() => onSelectSlot({ type: "hour", weekday, hour, from: startTime })}
+                />
+              ))}
+            </g>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default ChartsView;
@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Song, RankedItem, ForgottenFavorite, getStatsFromDB, getForgottenFavoritesFromDB, getHistoryBatchFromDB, HISTORY_UPDATED_EVENT } from "../db";
+import { OnThisDay, getOnThisDay, getForgottenFavoritesConfig, setForgottenFavoritesConfig, monthsAgo } from "../rediscover";
+import { showPlaylistModal } from "../playlistModal";
+import { PlaylistPlay } from "../playlists";
+import { formatListeningTime } from "../format";
+import { HistorySettings, formatDate } from "../settings";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type PeriodKey = "week" | "month" | "year";
+
+const PERIODS: { key: PeriodKey; label: string; days: number }[] = [
+  { key: "week", label: "Last week", days: 7 },
+  { key: "month", label: "Last month", days: 30 },
+  { key: "year", label: "Last year", days: 365 },
+];
+
+// Number of tracks listed for a period.
+const PERIOD_LIMIT = 20;
+
+// Number of forgotten favorites listed.
+const FORGOTTEN_LIMIT = 25;
+
+interface RediscoverSectionProps {
+  title: string;
+  items: RankedItem[];
+  /** What the tracks are, e.g. "your forgotten favorites", shown in the playlist modal. */
+  description: string;
+  /** Reads the plays of the tracks, to save them as a playlist. */
+  getSongs: () => Promise<PlaylistPlay[]>;
+  onShowDetails: (uri: string) => void;
+  /** Describes an item next to its play count, e.g. when it was last played. */
+  renderNote?: (item: RankedItem) => string;
+  empty: string;
+}
+
+/**
+ * A list of tracks with actions to queue them or save them as a playlist.
+ */
+const RediscoverSection: React.FC<RediscoverSectionProps> = ({ title, items, description, getSongs, onShowDetails, renderNote, empty }) => {
+  /**
+   * Handles adding the tracks to the queue, most played first.
+   */
+  const handleQueue = async () => {
+    try {
+      await Spicetify.addToQueue(items.map((item) => ({ uri: item.uri })));
+      Spicetify.showNotification(`Added ${items.length} tracks to the queue`);
+    } catch (error) {
+      console.error("Failed to add to queue:", error);
+      Spicetify.showNotification("Failed to add to queue", true);
+    }
+  };
+
+  return (
+    <div className="rediscoverSection">
+      <div className="rediscoverSectionHeader">
+        <h3>{title}</h3>
+        {items.length > 0 && (
+          <>
+            <button onClick={handleQueue}>Queue</button>
+            <button onClick={() => showPlaylistModal(getSongs, description)}>Save as playlist</button>
+          </>
+        )}
+      </div>
+      {items.length === 0 ? (
+        <p>{empty}</p>
+      ) : (
+        <ol>
+          {items.map((item) => (
+            <li key={item.uri} className="statsRankingItem">
+              {item.image && <img src={item.image} alt={item.name} className="songImage" />}
+              <div className="statsRankingText">
+                <div className="statsRankingName" title={item.name} onClick={() => onShowDetails(item.uri)}>{item.name}</div>
+                {item.subtitle && <div className="statsRankingSubtitle">{item.subtitle}</div>}
+              </div>
+              <div className="statsRankingCount">
+                {item.plays} plays · {renderNote ? renderNote(item) : formatListeningTime(item.listenedMs)}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+interface RediscoverViewProps {
+  db: IDBDatabase;
+  /** Opens the details drawer of a track. */
+  onShowDetails: (uri: string) => void;
+  /** The display settings, for the date format. */
+  settings: HistorySettings;
+}
+
+/**
+ * Past listening worth coming back to: what was played on this date in previous years, the top tracks of a recent period,
+ * and the favorites that have not been played for months.
+ */
+const RediscoverView: React.FC<RediscoverViewProps> = ({ db, onShowDetails, settings }) => {
+  // Tracks played on this date in previous years
+  const [onThisDay, setOnThisDay] = useState<OnThisDay[] | null>(null);
+
+  // Selected recent period
+  const [period, setPeriod] = useState<PeriodKey>("month");
+
+  // Top tracks of the selected period
+  const [periodTracks, setPeriodTracks] = useState<RankedItem[]>([]);
+
+  // Forgotten favorites settings state
+  const [config, setConfig] = useState(getForgottenFavoritesConfig);
+
+  // Forgotten favorites, most played first
+  const [forgotten, setForgotten] = useState<ForgottenFavorite[]>([]);
+
+  const selectedPeriod = PERIODS.find(({ key }) => key === period)!;
+
+  /**
+   * Reads every section of the view.
+   */
+  const fetchRediscover = useCallback(async () => {
+    try {
+      const [years, stats, favorites] = await Promise.all([
+        getOnThisDay(db),
+        getStatsFromDB(db, Date.now() - selectedPeriod.days * DAY_MS, undefined, PERIOD_LIMIT),
+        getForgottenFavoritesFromDB(db, monthsAgo(config.months), config.minPlays, FORGOTTEN_LIMIT),
+      ]);
+      setOnThisDay(years);
+      setPeriodTracks(stats.topTracks);
+      setForgotten(favorites);
+    } catch (error) {
+      console.error("Failed to fetch rediscover:", error);
+    }
+  }, [db, selectedPeriod, config]);
+
+  useEffect(() => {
+    fetchRediscover();
+    window.addEventListener(HISTORY_UPDATED_EVENT, fetchRediscover);
+    return () => window.removeEventListener(HISTORY_UPDATED_EVENT, fetchRediscover);
+  }, [fetchRediscover]);
+
+  /**
+   * Reads the listened plays of some tracks in a date range, to save them as a playlist.
+   * @param items - The tracks.
+   * @param from - The earliest listen date included, or undefined for no lower bound.
+   * @param to - The latest listen date included, or undefined for no upper bound.
+   */
+  const readPlays = (items: RankedItem[], from?: number, to?: number) => async (): Promise<Song[]> => {
+    const uris = new Set(items.map((item) => item.uri));
+    const songs = await getHistoryBatchFromDB(db, Number.MAX_SAFE_INTEGER, from, to);
+    return songs.filter((song) => uris.has(song.uri) && !song.skipped);
+  };
+
+  /**
+   * Lists the plays of forgotten favorites from their counts, to save them as a playlist.
+   * Their plays may have been rolled up by retention, so they are not read again from the history.
+   */
+  const readForgottenPlays = async (): Promise<PlaylistPlay[]> =>
+    forgotten.flatMap((item) => Array.from({ length: item.plays }, () => ({ uri: item.uri, listenDate: item.lastPlayed })));
+
+  /**
+   * Handles changing what counts as a forgotten favorite.
+   * @param field - The setting changed.
+   * @param value - The new value.
+   */
+  const handleConfigChange = (field: "months" | "minPlays", value: number) => {
+    if (isNaN(value) || value < 1) return;
+    const nextConfig = { ...config, [field]: value };
+    setForgottenFavoritesConfig(nextConfig);
+    setConfig(nextConfig);
+  };
+
+  if (!onThisDay) return <p>Loading...</p>;
+
+  return (
+    <div className="rediscoverView">
+      <h2>On this day</h2>
+      {onThisDay.length === 0 && <p>Nothing was played on this date in previous years.</p>}
+      {onThisDay.map((year) => (
+        <RediscoverSection
+          key={year.year}
+          title={`${year.year}`}
+          items={year.topTracks}
+          description={`what you played on this day in ${year.year}`}
+          getSongs={readPlays(year.topTracks, year.from, year.to)}
+          onShowDetails={onShowDetails}
+          empty=""
+        />
+      ))}
+
+      <h2>Recently</h2>
+      <div className="statsRanges">
+        {PERIODS.map(({ key, label }) => (
+          <button key={key} className={period === key ? "active" : ""} onClick={() => setPeriod(key)}>
+            {label}
+          </button>
+        ))}
+      </div>
+      <RediscoverSection
+        title={`Top tracks of the ${selectedPeriod.label.toLowerCase()}`}
+        items={periodTracks}
+        description={`your top tracks of the ${selectedPeriod.label.toLowerCase()}`}
+        getSongs={readPlays(periodTracks, Date.now() - selectedPeriod.days * DAY_MS)}
+        onShowDetails={onShowDetails}
+        empty="Nothing played in this period."
+      />
+
+      <h2>Forgotten favorites</h2>
+      <div className="rediscoverControls">
+        <label>
+          Favorites played at least
+          <input
+            type="number"
+            min={1}
+            value={config.minPlays}
+            onChange={(event) => handleConfigChange("minPlays", parseInt(event.target.value))}
+            className="thresholdInput"
+          />
+          times and not for
+          <input
+            type="number"
+            min={1}
+            value={config.months}
+            onChange={(event) => handleConfigChange("months", parseInt(event.target.value))}
+            className="thresholdInput"
+          />
+          months
+        </label>
+      </div>
+      <RediscoverSection
+        title={`Not played for ${config.months} months`}
+        items={forgotten}
+        description="your forgotten favorites"
+        getSongs={readForgottenPlays}
+        onShowDetails={onShowDetails}
+        renderNote={(item) => `last played ${formatDate((item as ForgottenFavorite).lastPlayed, settings)}`}
+        empty="No forgotten favorites: every track you played often was played recently."
+      />
+    </div>
+  );
+};
+
+export default RediscoverView;
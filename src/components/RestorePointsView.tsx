@@ -0,0 +1,233 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  RestorePoint,
+  RestorePointDiff,
+  RestorePointReason,
+  getRestorePointsFromDB,
+  getRestorePointDiffFromDB,
+  restoreRestorePointInDB,
+  deleteRestorePointFromDB,
+  Song,
+} from "../db";
+import { BACKUP_SCHEDULES, BackupConfig, BackupSchedule, getBackupConfig, setBackupConfig, createRestorePoint } from "../backups";
+import { confirmAction } from "../confirmModal";
+import { formatBytes } from "../format";
+import { HistorySettings, formatDateTime } from "../settings";
+
+const REASON_LABELS: Record<RestorePointReason, string> = {
+  scheduled: "Scheduled",
+  manual: "Manual",
+  "before-restore": "Before restore",
+};
+
+/**
+ * A few plays of a restore point diff.
+ */
+const DiffSample: React.FC<{ title: string; songs: Song[]; total: number; settings: HistorySettings }> = ({ title, songs, total, settings }) => (
+  <div className="restoreDiffSample">
+    <h3>{title}</h3>
+    <ul>
+      {songs.map((song) => (
+        <li key={song.playId}>
+          {song.name} · {song.artists.map((artist) => artist.name).join(", ")} · {formatDateTime(song.listenDate, settings)}
+        </li>
+      ))}
+      {total > songs.length && <li>and {total - songs.length} more</li>}
+    </ul>
+  </div>
+);
+
+/**
+ * The restore points, with the settings of scheduled backups, a comparison of each point with the current history, and restoring.
+ */
+const RestorePointsView: React.FC<{ db: IDBDatabase; settings: HistorySettings }> = ({ db, settings }) => {
+  // Restore points, newest first
+  const [restorePoints, setRestorePoints] = useState<RestorePoint[]>([]);
+
+  // Backup settings state
+  const [config, setConfigState] = useState<BackupConfig>(getBackupConfig);
+
+  // Restore point being compared, and its differences once read
+  const [comparedId, setComparedId] = useState<number | null>(null);
+  const [diff, setDiff] = useState<RestorePointDiff | null>(null);
+
+  // Whether a restore point is being taken or restored
+  const [busy, setBusy] = useState<boolean>(false);
+
+  /**
+   * Reads the restore points.
+   */
+  const fetchRestorePoints = useCallback(async () => {
+    try {
+      setRestorePoints(await getRestorePointsFromDB(db));
+    } catch (error) {
+      console.error("Failed to fetch restore points:", error);
+    }
+  }, [db]);
+
+  useEffect(() => {
+    fetchRestorePoints();
+  }, [fetchRestorePoints]);
+
+  /**
+   * Stores a change of the backup settings.
+   * @param change - The changed settings.
+   */
+  const updateConfig = (change: Partial<BackupConfig>) => {
+    const nextConfig = { ...config, ...change };
+    setBackupConfig(nextConfig);
+    setConfigState(nextConfig);
+  };
+
+  /**
+   * Takes a restore point now.
+   */
+  const handleCreate = async () => {
+    setBusy(true);
+    try {
+      await createRestorePoint(db, "manual");
+      Spicetify.showNotification("Restore point created");
+      fetchRestorePoints();
+    } catch (error) {
+      console.error("Failed to create restore point:", error);
+      Spicetify.showNotification("Failed to create restore point", true);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /**
+   * Compares a restore point with the current history, or hides the comparison if it is shown.
+   * @param id - The id of the restore point.
+   */
+  const handleCompare = async (id: number) => {
+    if (comparedId === id) {
+      setComparedId(null);
+      return;
+    }
+    setComparedId(id);
+    setDiff(null);
+    try {
+      setDiff(await getRestorePointDiffFromDB(db, id));
+    } catch (error) {
+      console.error("Failed to compare restore point:", error);
+      Spicetify.showNotification("Failed to compare restore point", true);
+    }
+  };
+
+  /**
+   * Replaces the history with a restore point, once confirmed. The current history is kept as a restore point first.
+   * @param restorePoint - The restore point.
+   */
+  const handleRestore = async (restorePoint: RestorePoint) => {
+    const date = formatDateTime(restorePoint.id, settings);
+    const message = `Replace your history with the restore point of ${date}? Your current history is saved as a restore point first.`;
+    if (!(await confirmAction("Restore", message, "Restore"))) return;
+    setBusy(true);
+    try {
+      await createRestorePoint(db, "before-restore");
+      const count = await restoreRestorePointInDB(db, restorePoint.id);
+      Spicetify.showNotification(`History restored: ${count} plays`);
+      setComparedId(null);
+      fetchRestorePoints();
+    } catch (error) {
+      console.error("Failed to restore:", error);
+      Spicetify.showNotification("Failed to restore", true);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /**
+   * Deletes a restore point, once confirmed.
+   * @param restorePoint - The restore point.
+   */
+  const handleDelete = async (restorePoint: RestorePoint) => {
+    if (!(await confirmAction("Delete Restore Point", `Delete the restore point of ${formatDateTime(restorePoint.id, settings)}?`, "Delete"))) return;
+    try {
+      await deleteRestorePointFromDB(db, restorePoint.id);
+      if (comparedId === restorePoint.id) setComparedId(null);
+      fetchRestorePoints();
+    } catch (error) {
+      console.error("Failed to delete restore point:", error);
+      Spicetify.showNotification("Failed to delete restore point", true);
+    }
+  };
+
+  return (
+    <div className="restorePointsView">
+      <div className="restorePointsSettings">
+        <label>
+          Back up
+          <select value={config.schedule} onChange={(event) => updateConfig({ schedule: event.target.value as BackupSchedule })}>
+            {BACKUP_SCHEDULES.map(({ schedule, label }) => (
+              <option key={schedule} value={schedule}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Keep the last
+          <input
+            type="number"
+            min={1}
+            value={config.keep}
+            onChange={(event) => {
+              const keep = parseInt(event.target.value);
+              if (!isNaN(keep) && keep >= 1) updateConfig({ keep });
+            }}
+            className="thresholdInput"
+          />
+          restore points
+        </label>
+        <label>
+          <input type="checkbox" checked={config.download} onChange={(event) => updateConfig({ download: event.target.checked })} />
+          Also download each backup
+        </label>
+        <button onClick={handleCreate} disabled={busy}>Create restore point now</button>
+      </div>
+
+      {restorePoints.length === 0 ? (
+        <p>No restore points yet.</p>
+      ) : (
+        <ul className="restorePointList">
+          {restorePoints.map((restorePoint) => (
+            <li key={restorePoint.id}>
+              <div className="restorePointRow">
+                <div className="restorePointDate">
+                  {formatDateTime(restorePoint.id, settings)}
+                  <span className="restorePointReason">{REASON_LABELS[restorePoint.reason]}</span>
+                </div>
+                <div className="restorePointSize">
+                  {restorePoint.plays} plays · {restorePoint.tracks} tracks · {formatBytes(restorePoint.size)}
+                </div>
+                <button onClick={() => handleCompare(restorePoint.id)}>{comparedId === restorePoint.id ? "Hide changes" : "Compare"}</button>
+                <button onClick={() => handleRestore(restorePoint)} disabled={busy}>Restore</button>
+                <button onClick={() => handleDelete(restorePoint)} disabled={busy}>Delete</button>
+              </div>
+              {comparedId === restorePoint.id && (
+                <div className="restoreDiff">
+                  {!diff ? (
+                    <p>Comparing...</p>
+                  ) : diff.restored === 0 && diff.removed === 0 && diff.aggregatesChange === 0 ? (
+                    <p>Identical to your current history.</p>
+                  ) : (
+                    <>
+                      <p>
+                        Restoring brings back {diff.restored} plays, removes {diff.removed} plays and keeps {diff.unchanged}.
+                        {diff.aggregatesChange !== 0 && ` It has ${Math.abs(diff.aggregatesChange)} ${diff.aggregatesChange > 0 ? "more" : "fewer"} daily totals of rolled up plays.`}
+                      </p>
+                      {diff.restored > 0 && <DiffSample title="Brought back" songs={diff.restoredSample} total={diff.restored} settings={settings} />}
+                      {diff.removed > 0 && <DiffSample title="Removed" songs={diff.removedSample} total={diff.removed} settings={settings} />}
+                    </>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RestorePointsView;
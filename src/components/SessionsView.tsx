@@ -0,0 +1,177 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Song, getHistoryBatchFromDB, HISTORY_UPDATED_EVENT, HISTORY_TRASHED_EVENT } from "../db";
+import { ListeningSession, groupSessions, groupSessionsByDay, getSessionGapMinutes, setSessionGapMinutes } from "../sessions";
+import { formatDuration, formatListeningTime } from "../format";
+import { HistorySettings, formatDate, formatTime } from "../settings";
+
+// Number of days loaded at first, and added by "Show earlier days".
+const DAYS_STEP = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Formats a day key (YYYY-MM-DD) as its weekday and date in the chosen date format, e.g. "Monday, 2026-03-02".
+ */
+const formatDay = (day: string, settings: HistorySettings): string => {
+  const date = new Date(`${day}T00:00:00`);
+  return `${date.toLocaleDateString([], { weekday: "long" })}, ${formatDate(date.getTime(), settings)}`;
+};
+
+interface SessionsViewProps {
+  db: IDBDatabase;
+  /** The display settings, for the date and time formats. */
+  settings: HistorySettings;
+}
+
+/**
+ * The plays of the last days grouped into listening sessions, under collapsible headers per day and per session.
+ */
+const SessionsView: React.FC<SessionsViewProps> = ({ db, settings }) => {
+  // Plays of the loaded days, in chronological order
+  const [songs, setSongs] = useState<Song[]>([]);
+
+  // Number of days loaded, counting today
+  const [days, setDays] = useState<number>(DAYS_STEP);
+
+  // Session gap state, in minutes
+  const [gapMinutes, setGapMinutesState] = useState<number>(getSessionGapMinutes);
+
+  // Collapsed days, by day key
+  const [collapsedDays, setCollapsedDays] = useState<Set<string>>(new Set());
+
+  // Expanded sessions, by session id; sessions only show their header at first
+  const [expandedSessions, setExpandedSessions] = useState<Set<string>>(new Set());
+
+  /**
+   * Reads the plays of the loaded days.
+   */
+  const fetchSongs = useCallback(async () => {
+    const from = new Date(Date.now() - (days - 1) * DAY_MS).setHours(0, 0, 0, 0);
+    try {
+      setSongs(await getHistoryBatchFromDB(db, Number.MAX_SAFE_INTEGER, from));
+    } catch (error) {
+      console.error("Failed to fetch sessions:", error);
+    }
+  }, [db, days]);
+
+  useEffect(() => {
+    fetchSongs();
+    window.addEventListener(HISTORY_UPDATED_EVENT, fetchSongs);
+    window.addEventListener(HISTORY_TRASHED_EVENT, fetchSongs);
+    return () => {
+      window.removeEventListener(HISTORY_UPDATED_EVENT, fetchSongs);
+      window.removeEventListener(HISTORY_TRASHED_EVENT, fetchSongs);
+    };
+  }, [fetchSongs]);
+
+  const sessionDays = useMemo(() => groupSessionsByDay(groupSessions(songs, gapMinutes)), [songs, gapMinutes]);
+
+  /**
+   * Handles changing the idle gap that ends a session.
+   * @param minutes - The new gap in minutes.
+   */
+  const handleGapChange = (minutes: number) => {
+    if (isNaN(minutes) || minutes < 1) return;
+    setSessionGapMinutes(minutes);
+    setGapMinutesState(minutes);
+  };
+
+  /**
+   * Adds an item to a set state, or removes it if it is in the set.
+   */
+  const toggle = (setState: React.Dispatch<React.SetStateAction<Set<string>>>, key: string) => {
+    setState((prevKeys) => {
+      const nextKeys = new Set(prevKeys);
+      if (!nextKeys.delete(key)) nextKeys.add(key);
+      return nextKeys;
+    });
+  };
+
+  /**
+   * Handles replaying a session by adding its tracks to the queue, in the order they were played.
+   * Skipped plays are left out, unless every play of the session was skipped.
+   * @param session - The session to replay.
+   */
+  const handleReplay = async (session: ListeningSession) => {
+    const listened = session.plays.filter((play) => !play.skipped);
+    const plays = listened.length > 0 ? listened : session.plays;
+    try {
+      await Spicetify.addToQueue(plays.map((play) => ({ uri: play.uri })));
+      Spicetify.showNotification(`Added ${plays.length} tracks to the queue`);
+    } catch (error) {
+      console.error("Failed to add to queue:", error);
+      Spicetify.showNotification("Failed to add to queue", true);
+    }
+  };
+
+  return (
+    <div className="sessionsView">
+      <div className="sessionsControls">
+        <label>
+          New session after
+          <input
+            type="number"
+            min={1}
+            value={gapMinutes}
+            onChange={(event) => handleGapChange(parseInt(event.target.value))}
+            className="thresholdInput"
+          />
+          minutes without listening
+        </label>
+      </div>
+
+      {sessionDays.length === 0 && <p>No plays in the last {days} days.</p>}
+
+      {sessionDays.map((sessionDay) => {
+        const dayCollapsed = collapsedDays.has(sessionDay.day);
+        return (
+          <div key={sessionDay.day} className="sessionDay">
+            <button className="sessionDayHeader" onClick={() => toggle(setCollapsedDays, sessionDay.day)}>
+              <span className="sessionToggle">{dayCollapsed ? "▸" : "▾"}</span>
+              <span className="sessionDayTitle">{formatDay(sessionDay.day, settings)}</span>
+              <span className="sessionSummary">
+                {sessionDay.sessions.length} {sessionDay.sessions.length === 1 ? "session" : "sessions"} · {formatListeningTime(sessionDay.playedMs)}
+              </span>
+            </button>
+
+            {!dayCollapsed && sessionDay.sessions.map((session) => {
+              const expanded = expandedSessions.has(session.id);
+              return (
+                <div key={session.id} className="session">
+                  <div className="sessionHeader">
+                    <button className="sessionTitle" onClick={() => toggle(setExpandedSessions, session.id)}>
+                      <span className="sessionToggle">{expanded ? "▾" : "▸"}</span>
+                      <span>{formatTime(session.start, settings)}–{formatTime(session.end, settings)}</span>
+                      <span className="sessionSummary">
+                        {formatListeningTime(session.playedMs)} · {session.plays.length} plays
+                        {session.topArtists.length > 0 && ` · ${session.topArtists.join(", ")}`}
+                      </span>
+                    </button>
+                    <button className="sessionReplay" onClick={() => handleReplay(session)}>Replay this session</button>
+                  </div>
+
+                  {expanded && (
+                    <ul className="sessionPlays">
+                      {session.plays.map((play) => (
+                        <li key={play.playId} className={play.skipped ? "skipped" : ""}>
+                          <span className="sessionPlayTime">{formatTime(play.listenDate, settings)}</span>
+                          <span className="sessionPlayName" title={play.name}>{play.name}</span>
+                          <span className="sessionPlayArtists">{play.artists.map((artist) => artist.name).join(", ")}</span>
+                          <span className="sessionPlayDuration">{formatDuration(play.playedMs)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+
+      <button className="sessionsMore" onClick={() => setDays((prevDays) => prevDays + DAYS_STEP)}>Show earlier days</button>
+    </div>
+  );
+};
+
+export default SessionsView;
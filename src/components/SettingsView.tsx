@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from "react";
+import { SortKey } from "../db";
+import {
+  COLUMNS,
+  DATE_FORMATS,
+  DEFAULT_SETTINGS,
+  DENSITIES,
+  DateFormat,
+  Density,
+  HistorySettings,
+  SETTINGS_CHANGED_EVENT,
+  SORT_LABELS,
+  TIME_FORMATS,
+  TimeFormat,
+  formatDateTime,
+  getSettings,
+  setSettings,
+} from "../settings";
+
+/**
+ * Editor of the display settings of the History app.
+ * Changes are stored as soon as they are made, and applied by the app and the extension right away.
+ */
+const SettingsView: React.FC = () => {
+  // Current settings, kept in sync with changes stored elsewhere
+  const [settings, setSettingsState] = useState<HistorySettings>(getSettings);
+
+  useEffect(() => {
+    const handleSettingsChanged = (event: Event) => setSettingsState((event as CustomEvent<HistorySettings>).detail);
+    window.addEventListener(SETTINGS_CHANGED_EVENT, handleSettingsChanged);
+    return () => window.removeEventListener(SETTINGS_CHANGED_EVENT, handleSettingsChanged);
+  }, []);
+
+  /**
+   * Stores a change of the settings.
+   * @param change - The changed settings.
+   */
+  const updateSettings = (change: Partial<HistorySettings>) => {
+    setSettings({ ...getSettings(), ...change });
+  };
+
+  /**
+   * Moves a column one place up or down.
+   * @param index - The position of the column.
+   * @param offset - -1 to move it up, 1 to move it down.
+   */
+  const moveColumn = (index: number, offset: number) => {
+    const columns = [...settings.columns];
+    [columns[index], columns[index + offset]] = [columns[index + offset], columns[index]];
+    updateSettings({ columns });
+  };
+
+  /**
+   * Shows or hides a column.
+   * @param index - The position of the column.
+   * @param visible - Whether to show it.
+   */
+  const setColumnVisible = (index: number, visible: boolean) => {
+    updateSettings({ columns: settings.columns.map((column, position) => (position === index ? { ...column, visible } : column)) });
+  };
+
+  /**
+   * Handles changing a number setting, ignoring values out of its range.
+   * @param key - The setting changed.
+   * @param value - The new value.
+   */
+  const handleNumberChange = (key: "searchDebounceMs" | "truncateLength", value: number) => {
+    if (isNaN(value) || value < 0) return;
+    updateSettings({ [key]: value });
+  };
+
+  return (
+    <div className="settingsView">
+      <h2>Columns</h2>
+      <ul className="settingsColumns">
+        {settings.columns.map((column, index) => (
+          <li key={column.key}>
+            <label>
+              <input
+                type="checkbox"
+                checked={column.visible}
+                disabled={column.key === "title"}
+                onChange={(event) => setColumnVisible(index, event.target.checked)}
+              />
+              {COLUMNS.find(({ key }) => key === column.key)!.label}
+            </label>
+            <button onClick={() => moveColumn(index, -1)} disabled={index === 0} title="Move up">▲</button>
+            <button onClick={() => moveColumn(index, 1)} disabled={index === settings.columns.length - 1} title="Move down">▼</button>
+          </li>
+        ))}
+      </ul>
+
+      <h2>List</h2>
+      <label>
+        Sort by default by
+        <select
+          value={settings.defaultSort.key}
+          onChange={(event) => updateSettings({ defaultSort: { ...settings.defaultSort, key: event.target.value as SortKey } })}
+        >
+          {Object.entries(SORT_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+        </select>
+        <select
+          value={settings.defaultSort.ascending ? "ascending" : "descending"}
+          onChange={(event) => updateSettings({ defaultSort: { ...settings.defaultSort, ascending: event.target.value === "ascending" } })}
+        >
+          <option value="descending">Descending</option>
+          <option value="ascending">Ascending</option>
+        </select>
+      </label>
+      <label>
+        Row density
+        <select value={settings.density} onChange={(event) => updateSettings({ density: event.target.value as Density })}>
+          {DENSITIES.map(({ density, label }) => <option key={density} value={density}>{label}</option>)}
+        </select>
+      </label>
+      <label>
+        Truncate titles and albums after
+        <input
+          type="number"
+          min={0}
+          value={settings.truncateLength}
+          onChange={(event) => handleNumberChange("truncateLength", parseInt(event.target.value))}
+          className="thresholdInput"
+        />
+        characters (0 never truncates)
+      </label>
+      <label>
+        Search after
+        <input
+          type="number"
+          min={0}
+          step={50}
+          value={settings.searchDebounceMs}
+          onChange={(event) => handleNumberChange("searchDebounceMs", parseInt(event.target.value))}
+          className="thresholdInput"
+        />
+        ms without typing
+      </label>
+
+      <h2>Dates</h2>
+      <label>
+        Date format
+        <select value={settings.dateFormat} onChange={(event) => updateSettings({ dateFormat: event.target.value as DateFormat })}>
+          {DATE_FORMATS.map(({ format, label }) => <option key={format} value={format}>{label}</option>)}
+        </select>
+      </label>
+      <label>
+        Time format
+        <select value={settings.timeFormat} onChange={(event) => updateSettings({ timeFormat: event.target.value as TimeFormat })}>
+          {TIME_FORMATS.map(({ format, label }) => <option key={format} value={format}>{label}</option>)}
+        </select>
+      </label>
+      <p className="settingsPreview">Now: {formatDateTime(Date.now(), settings)}</p>
+
+      <button className="settingsReset" onClick={() => setSettings(DEFAULT_SETTINGS)}>Reset to defaults</button>
+    </div>
+  );
+};
+
+export default SettingsView;
@@ -0,0 +1,264 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Song, SortKey, MediaType, ScrobbleEntry, ScrobbleStatus } from "../db";
+import { formatDuration } from "../format";
+import { CONTEXT_TYPE_LABELS, describePlayMode, getContextPath } from "../playContext";
+import { COLUMNS, ColumnKey, HistorySettings, formatDateTime, getRowHeight, truncate } from "../settings";
+
+// Fixed columns around the configurable ones: selection and index before them, actions after.
+const LEADING_COLUMNS = ["20px", "32px"];
+const TRAILING_COLUMNS = ["60px"];
+
+// Rows rendered above and below the visible ones, so fast scrolling does not show blank rows.
+const OVERSCAN = 10;
+
+const MEDIA_TYPE_LABELS: Record<MediaType, string | null> = {
+  track: null,
+  episode: "Episode",
+  chapter: "Chapter",
+};
+
+const SCROBBLE_LABELS: Record<ScrobbleStatus, string> = {
+  pending: "Scrobble queued",
+  submitted: "Scrobbled",
+  failed: "Scrobble failed",
+};
+
+interface SongListProps {
+  songs: Song[];
+  /** True while more songs can be loaded past the last one. */
+  hasMore: boolean;
+  /** Loads the next page of songs. */
+  onLoadMore: () => void;
+  onSort: (key: SortKey) => void;
+  /** Whether a song is the one currently playing. */
+  isPlayingSong: (song: Song) => boolean;
+  onPlayPause: (song: Song) => void;
+  onDelete: (song: Song) => void;
+  /** Plays an episode or chapter from where its play stopped. */
+  onResume: (song: Song) => void;
+  /** Play ids of the selected songs, loaded or not. */
+  selected: Set<string>;
+  /** Selects or unselects a song; `range` extends the selection from the last selected song to it. */
+  onSelect: (song: Song, index: number, range: boolean) => void;
+  /** Selects every song passing the filter, or clears the selection when every loaded song is selected. */
+  onSelectAll: () => void;
+  /** Scrobble queue entries of the loaded songs, keyed by play id. */
+  scrobbles?: Map<string, ScrobbleEntry>;
+  /** Play counts per track URI, shown in the "Plays" column. */
+  playCounts?: Map<string, number>;
+  /** Opens the details of the track of a song. */
+  onShowDetails: (song: Song) => void;
+  /** The columns, row density, date format and truncation of the list. */
+  settings: HistorySettings;
+}
+
+/**
+ * Checks whether a play stopped partway through an episode or chapter, so it can be resumed.
+ */
+const canResume = (song: Song): boolean =>
+  song.mediaType !== "track" && !!song.position && song.position < song.duration.milliseconds;
+
+/**
+ * Opens the page of an album, show or audiobook from its URI.
+ */
+const openCollection = (uri: string | undefined) => {
+  const [, type, id] = uri?.split(":") ?? [];
+  if (type && id) Spicetify.Platform.History.push(`/${type}/${id}`);
+};
+
+/**
+ * The history list. Only the rows in view are rendered, and the next page is requested when scrolling near the end of the loaded songs.
+ */
+const SongList: React.FC<SongListProps> = ({ songs, hasMore, onLoadMore, onSort, isPlayingSong, onPlayPause, onDelete, onResume, selected, onSelect, onSelectAll, scrobbles, playCounts, onShowDetails, settings }) => {
+  // Scroll container of the rows
+  const bodyRef = useRef<HTMLDivElement | null>(null);
+
+  // Scroll position and height of the scroll container
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const [viewportHeight, setViewportHeight] = useState<number>(0);
+
+  // Track the height of the scroll container.
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    const observer = new ResizeObserver(() => setViewportHeight(body.clientHeight));
+    observer.observe(body);
+    setViewportHeight(body.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  // Rows are positioned from their height, which the stylesheet matches for each density.
+  const rowHeight = getRowHeight(settings.density);
+  const first = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN);
+  const last = Math.min(songs.length, Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN);
+
+  // Load the next page once the rendered rows reach the end of the loaded songs.
+  useEffect(() => {
+    if (hasMore && last >= songs.length) onLoadMore();
+  }, [hasMore, last, songs.length, onLoadMore]);
+
+  const allSelected = songs.length > 0 && songs.every((song) => selected.has(song.playId));
+
+  const columns = settings.columns
+    .filter((column) => column.visible)
+    .map((column) => COLUMNS.find(({ key }) => key === column.key)!);
+  const gridTemplateColumns = [...LEADING_COLUMNS, ...columns.map((column) => column.width), ...TRAILING_COLUMNS].join(" ");
+
+  /**
+   * Renders the cell of a song in a configurable column.
+   */
+  const renderCell = (song: Song, key: ColumnKey) => {
+    if (key === "title") {
+      const mediaTypeLabel = MEDIA_TYPE_LABELS[song.mediaType ?? "track"];
+      return (
+        <div key={key} className="songDetails">
+          <div className="songImageContainer">
+            <img
+              src={song.images?.[0]?.url || "/default-image.png"}
+              alt={song.name}
+              className="songImage"
+              loading="lazy"
+            />
+          </div>
+          <div className="songDetailsText">
+            <div className="songName" title={song.name} onClick={() => onShowDetails(song)}>
+              {mediaTypeLabel && <span className="mediaTypeLabel">{mediaTypeLabel}</span>}
+              {truncate(song.name, settings.truncateLength)}
+            </div>
+            <div className="songArtist" onClick={() => Spicetify.Platform.History.push(`/artist/${song.artists?.[0].uri.split(":")[2]}`)}>
+              {song.artists?.map((a: { name: string }) => a.name).join(", ")}
+            </div>
+          </div>
+        </div>
+      );
+    }
+    if (key === "album") {
+      return (
+        <div key={key} className="songAlbum" onClick={() => openCollection(song.album?.uri)}>
+          {truncate(song.album?.name ?? "", settings.truncateLength)}
+        </div>
+      );
+    }
+    if (key === "source") {
+      const sourcePath = song.context && getContextPath(song.context);
+      return (
+        <div key={key} className="songSource">
+          {song.context?.uri && (
+            <div
+              className={sourcePath ? "songSourceName link" : "songSourceName"}
+              title={song.context.uri}
+              onClick={() => sourcePath && Spicetify.Platform.History.push(sourcePath)}
+            >
+              {song.context.name ?? CONTEXT_TYPE_LABELS[song.context.type]}
+            </div>
+          )}
+          {song.context && (
+            <span className="songSourceMode">
+              {[song.context.uri && song.context.name && CONTEXT_TYPE_LABELS[song.context.type], describePlayMode(song.context)]
+                .filter(Boolean)
+                .join(" · ")}
+            </span>
+          )}
+        </div>
+      );
+    }
+    if (key === "date") {
+      const scrobble = scrobbles?.get(song.playId);
+      return (
+        <div
+          key={key}
+          className="songDate"
+          title={`Listened for ${formatDuration(song.playedMs)}${song.position !== undefined ? `, stopped at ${formatDuration(song.position)}` : ""}`}
+        >
+          {song.listenDate ? formatDateTime(song.listenDate, settings) : ""}
+          {song.skipped && <span className="skippedLabel">Skipped</span>}
+          {scrobble && (
+            <span className={`scrobbleLabel ${scrobble.status}`} title={scrobble.error}>
+              {SCROBBLE_LABELS[scrobble.status]}
+            </span>
+          )}
+        </div>
+      );
+    }
+    if (key === "plays") {
+      return (
+        <div key={key} className="songPlays">
+          {playCounts?.get(song.uri) ?? ""}
+        </div>
+      );
+    }
+    return (
+      <div key={key} className="songDuration">
+        {formatDuration(song.duration.milliseconds)}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`songList ${settings.density}`}>
+      {/* Header Row */}
+      <div className="songListHeaderRow" style={{ gridTemplateColumns }}>
+        <div className="headerSelect">
+          <input type="checkbox" checked={allSelected} onChange={onSelectAll} title="Select all" />
+        </div>
+        <div className="headerIndex">#</div>
+        {columns.map(({ key, label, sort }) => (
+          <div key={key} onClick={sort && (() => onSort(sort))} className={sort ? "headerSortable" : undefined}>{label}</div>
+        ))}
+        <div></div>
+      </div>
+
+      <div className="songListBody" ref={bodyRef} onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}>
+        {songs.length === 0 && !hasMore ? (
+          <p>No history available.</p>
+        ) : (
+          <div style={{ position: "relative", height: songs.length * rowHeight }}>
+            {songs.slice(first, last).map((song, offset) => (
+                <div
+                  key={song.playId}
+                  className={["songRow", song.skipped && "skipped", selected.has(song.playId) && "selected"].filter(Boolean).join(" ")}
+                  style={{ position: "absolute", top: (first + offset) * rowHeight, left: 0, right: 0, height: rowHeight, gridTemplateColumns }}
+                >
+                  {/* Selection */}
+                  <div className="songSelect">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(song.playId)}
+                      onClick={(event) => onSelect(song, first + offset, event.shiftKey)}
+                      readOnly
+                    />
+                  </div>
+                  {/* Index */}
+                  <div className="songIndex">
+                    <span className="indexNumber">{first + offset + 1}</span>
+                    <span
+                      className="playPauseIcon"
+                      onClick={() => onPlayPause(song)}
+                    >
+                      <svg
+                        dangerouslySetInnerHTML={{
+                          __html:
+                            isPlayingSong(song) && Spicetify.Player.isPlaying()
+                              ? Spicetify.SVGIcons["pause"]
+                              : Spicetify.SVGIcons["play"]
+                        }}
+                      />
+                    </span>
+                  </div>
+                  {/* Configurable columns, in the order chosen in the settings */}
+                  {columns.map(({ key }) => renderCell(song, key))}
+                  {/* Actions */}
+                  <div className="songActions">
+                    {canResume(song) && <button onClick={() => onResume(song)}>Resume</button>}
+                    <button onClick={() => onDelete(song)}>Delete</button>
+                  </div>
+                </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SongList;
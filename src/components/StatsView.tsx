@@ -0,0 +1,143 @@
+import React, { useEffect, useState, useCallback } from "react";
+import { getStatsFromDB, ListeningStats, RankedItem, HISTORY_UPDATED_EVENT } from "../db";
+import { formatListeningTime, parseDateInput } from "../format";
+import { CONTEXT_TYPE_LABELS } from "../playContext";
+import { ContextType } from "../db";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RangeKey = "7d" | "30d" | "year" | "all" | "custom";
+
+const RANGES: { key: RangeKey; label: string }[] = [
+  { key: "7d", label: "7 days" },
+  { key: "30d", label: "30 days" },
+  { key: "year", label: "Year" },
+  { key: "all", label: "All time" },
+  { key: "custom", label: "Custom" },
+];
+
+/**
+ * Ranking of the most played tracks, artists or albums.
+ */
+const RankingList: React.FC<{ title: string; items: RankedItem[]; onOpen: (item: RankedItem) => void }> = ({ title, items, onOpen }) => (
+  <div className="statsRanking">
+    <h2>{title}</h2>
+    {items.length === 0 ? (
+      <p>Nothing played in this range.</p>
+    ) : (
+      <ol>
+        {items.map((item) => (
+          <li key={item.uri} className="statsRankingItem">
+            {item.image && <img src={item.image} alt={item.name} className="songImage" />}
+            <div className="statsRankingText">
+              <div className="statsRankingName" title={item.name} onClick={() => onOpen(item)}>{item.name}</div>
+              {item.subtitle && <div className="statsRankingSubtitle">{item.subtitle}</div>}
+            </div>
+            <div className="statsRankingCount">
+              {item.plays} plays · {formatListeningTime(item.listenedMs)}
+            </div>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+interface StatsViewProps {
+  db: IDBDatabase;
+  /** Shows the plays of a playlist, album or other source in the history list. */
+  onSelectSource: (uri: string) => void;
+}
+
+/**
+ * Listening statistics over a selectable date range, aggregated from IndexedDB.
+ */
+const StatsView: React.FC<StatsViewProps> = ({ db, onSelectSource }) => {
+  // Selected date range
+  const [range, setRange] = useState<RangeKey>("30d");
+
+  // Custom range bounds, as date input values
+  const [customFrom, setCustomFrom] = useState<string>("");
+  const [customTo, setCustomTo] = useState<string>("");
+
+  // Statistics of the selected range
+  const [stats, setStats] = useState<ListeningStats | null>(null);
+
+  /**
+   * Fetches the statistics of the selected range.
+   */
+  const fetchStats = useCallback(async () => {
+    let from: number | undefined;
+    let to: number | undefined;
+    const now = Date.now();
+    if (range === "7d") from = now - 7 * DAY_MS;
+    else if (range === "30d") from = now - 30 * DAY_MS;
+    else if (range === "year") from = now - 365 * DAY_MS;
+    else if (range === "custom") {
+      from = parseDateInput(customFrom, false);
+      to = parseDateInput(customTo, true);
+    }
+    try {
+      setStats(await getStatsFromDB(db, from, to));
+    } catch (error) {
+      console.error("Failed to fetch statistics:", error);
+    }
+  }, [db, range, customFrom, customTo]);
+
+  useEffect(() => {
+    fetchStats();
+    window.addEventListener(HISTORY_UPDATED_EVENT, fetchStats);
+    return () => window.removeEventListener(HISTORY_UPDATED_EVENT, fetchStats);
+  }, [fetchStats]);
+
+  const openTrack = (item: RankedItem) => Spicetify.Player.playUri(item.uri);
+  const openPage = (type: string) => (item: RankedItem) => Spicetify.Platform.History.push(`/${type}/${item.uri.split(":")[2]}`);
+
+  return (
+    <div className="statsView">
+      {/* Range selection */}
+      <div className="statsRanges">
+        {RANGES.map(({ key, label }) => (
+          <button key={key} className={range === key ? "active" : ""} onClick={() => setRange(key)}>
+            {label}
+          </button>
+        ))}
+        {range === "custom" && (
+          <div className="statsCustomRange">
+            <input type="date" value={customFrom} onChange={(event) => setCustomFrom(event.target.value)} />
+            <span>to</span>
+            <input type="date" value={customTo} onChange={(event) => setCustomTo(event.target.value)} />
+          </div>
+        )}
+      </div>
+
+      {stats && (
+        <>
+          {/* Totals */}
+          <div className="statsTotals">
+            <div><strong>{formatListeningTime(stats.listenedMs)}</strong><span>listened</span></div>
+            <div><strong>{stats.plays}</strong><span>plays</span></div>
+            <div><strong>{stats.skips}</strong><span>skips</span></div>
+            <div><strong>{stats.uniqueTracks}</strong><span>tracks</span></div>
+            <div><strong>{stats.uniqueArtists}</strong><span>artists</span></div>
+            <div><strong>{stats.uniqueAlbums}</strong><span>albums</span></div>
+          </div>
+
+          {/* Rankings */}
+          <div className="statsRankings">
+            <RankingList title="Top tracks" items={stats.topTracks} onOpen={openTrack} />
+            <RankingList title="Top artists" items={stats.topArtists} onOpen={openPage("artist")} />
+            <RankingList title="Top albums" items={stats.topAlbums} onOpen={openPage("album")} />
+            <RankingList
+              title="Top sources"
+              items={stats.topSources.map((item) => ({ ...item, subtitle: CONTEXT_TYPE_LABELS[item.subtitle as ContextType] ?? item.subtitle }))}
+              onOpen={(item) => onSelectSource(item.uri)}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StatsView;
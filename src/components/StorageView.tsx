@@ -0,0 +1,155 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { StoreCounts, getStoreCountsFromDB, getRestorePointsFromDB, compactTracksInDB, HISTORY_UPDATED_EVENT, HISTORY_TRASHED_EVENT } from "../db";
+import { getRetentionMonths, setRetentionMonths, applyRetention } from "../retention";
+import { confirmAction } from "../confirmModal";
+import { formatBytes } from "../format";
+
+const STORE_LABELS: { key: keyof StoreCounts; label: string }[] = [
+  { key: "plays", label: "Plays" },
+  { key: "tracks", label: "Tracks" },
+  { key: "aggregates", label: "Daily totals of rolled up plays" },
+  { key: "scrobbles", label: "Scrobbles" },
+  { key: "trash", label: "Plays in the trash" },
+  { key: "restorePoints", label: "Restore points" },
+];
+
+/**
+ * Storage panel: record counts, the space used by the app, the retention of individual plays, and compaction.
+ */
+const StorageView: React.FC<{ db: IDBDatabase }> = ({ db }) => {
+  // Number of records in each object store
+  const [counts, setCounts] = useState<StoreCounts | null>(null);
+
+  // Total size of the restore points, in bytes
+  const [restorePointsSize, setRestorePointsSize] = useState<number | null>(null);
+
+  // Space used and available, as estimated by the browser
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+
+  // Retention state, in months
+  const [retentionMonths, setRetentionMonthsState] = useState<number>(getRetentionMonths);
+
+  // Whether a roll-up or compaction is running
+  const [busy, setBusy] = useState<boolean>(false);
+
+  /**
+   * Reads the record counts and the storage estimate.
+   */
+  const fetchUsage = useCallback(async () => {
+    try {
+      setCounts(await getStoreCountsFromDB(db));
+      const restorePoints = await getRestorePointsFromDB(db);
+      setRestorePointsSize(restorePoints.reduce((total, restorePoint) => total + restorePoint.size, 0));
+      setEstimate(await navigator.storage?.estimate?.() ?? null);
+    } catch (error) {
+      console.error("Failed to read storage usage:", error);
+    }
+  }, [db]);
+
+  useEffect(() => {
+    fetchUsage();
+    window.addEventListener(HISTORY_UPDATED_EVENT, fetchUsage);
+    window.addEventListener(HISTORY_TRASHED_EVENT, fetchUsage);
+    return () => {
+      window.removeEventListener(HISTORY_UPDATED_EVENT, fetchUsage);
+      window.removeEventListener(HISTORY_TRASHED_EVENT, fetchUsage);
+    };
+  }, [fetchUsage]);
+
+  /**
+   * Handles changing the retention. It applies on the next startup, or when rolling up now.
+   * @param months - The new retention in months, or 0 to keep every play.
+   */
+  const handleRetentionChange = (months: number) => {
+    if (isNaN(months) || months < 0) return;
+    setRetentionMonths(months);
+    setRetentionMonthsState(months);
+  };
+
+  /**
+   * Rolls up the plays older than the retention, once confirmed.
+   */
+  const handleRollUp = async () => {
+    if (retentionMonths === 0) {
+      Spicetify.showNotification("Set how many months to keep plays first");
+      return;
+    }
+    const message = `Roll up the plays older than ${retentionMonths} months into daily totals? They will no longer be listed individually.`;
+    if (!(await confirmAction("Roll Up Plays", message, "Roll up"))) return;
+    setBusy(true);
+    try {
+      const count = await applyRetention(db);
+      Spicetify.showNotification(count ? `Rolled up ${count} plays` : "No plays to roll up");
+    } catch (error) {
+      console.error("Failed to roll up plays:", error);
+      Spicetify.showNotification("Failed to roll up plays", true);
+    } finally {
+      setBusy(false);
+      fetchUsage();
+    }
+  };
+
+  /**
+   * Strips the redundant metadata of every track record, once confirmed.
+   */
+  const handleCompact = async () => {
+    const message = "Remove the metadata and extra image sizes the app does not use from every track? Plays are not affected.";
+    if (!(await confirmAction("Compact Tracks", message, "Compact"))) return;
+    setBusy(true);
+    try {
+      const count = await compactTracksInDB(db);
+      Spicetify.showNotification(count ? `Compacted ${count} tracks` : "Nothing to compact");
+    } catch (error) {
+      console.error("Failed to compact tracks:", error);
+      Spicetify.showNotification("Failed to compact tracks", true);
+    } finally {
+      setBusy(false);
+      fetchUsage();
+    }
+  };
+
+  return (
+    <div className="storageView">
+      <h2>Records</h2>
+      <table className="storageCounts">
+        <tbody>
+          {STORE_LABELS.map(({ key, label }) => (
+            <tr key={key}>
+              <td>{label}</td>
+              <td>
+                {counts ? counts[key].toLocaleString() : "…"}
+                {key === "restorePoints" && restorePointsSize ? ` (about ${formatBytes(restorePointsSize)})` : ""}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p>
+        {estimate?.usage !== undefined
+          ? `Using about ${formatBytes(estimate.usage)}${estimate.quota ? ` of ${formatBytes(estimate.quota)} available` : ""}, shared with the rest of the Spotify client.`
+          : "The storage estimate is not available."}
+      </p>
+
+      <h2>Retention</h2>
+      <label>
+        Keep individual plays for
+        <input
+          type="number"
+          min={0}
+          value={retentionMonths}
+          onChange={(event) => handleRetentionChange(parseInt(event.target.value))}
+          className="thresholdInput"
+        />
+        months (0 keeps them forever)
+      </label>
+      <p>Older plays are rolled up into daily totals per track on startup. Statistics and charts still count them.</p>
+      <button onClick={handleRollUp} disabled={busy}>Roll up now</button>
+
+      <h2>Compaction</h2>
+      <p>Tracks are saved without the player metadata the app never reads. Tracks saved by older versions still hold all of it until they are compacted.</p>
+      <button onClick={handleCompact} disabled={busy}>Compact tracks</button>
+    </div>
+  );
+};
+
+export default StorageView;
@@ -0,0 +1,142 @@
+import React, { useRef, useState } from "react";
+import { MergeCounts } from "../db";
+import { SyncConfig, getSyncConfig, setSyncConfig, getSyncState, syncNow, exportSyncFile, importSyncFile } from "../sync";
+import { HistorySettings, formatDateTime } from "../settings";
+
+/**
+ * Describes the plays merged from another machine.
+ */
+const describeMerge = ({ added, updated, deleted }: MergeCounts): string =>
+  added + updated + deleted === 0 ? "no changes" : `${added} added, ${updated} updated, ${deleted} deleted`;
+
+/**
+ * Sync settings: the sync target, syncing now, and sync files for machines without a shared target.
+ */
+const SyncView: React.FC<{ db: IDBDatabase; settings: HistorySettings }> = ({ db, settings }) => {
+  // Sync settings state
+  const [config, setConfigState] = useState<SyncConfig>(getSyncConfig);
+
+  // Time of the last successful sync with the target
+  const [lastSync, setLastSync] = useState<number | undefined>(() => getSyncState()?.lastSync);
+
+  // Whether a sync, export or import is running
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  /**
+   * Stores a change of the sync settings.
+   * @param change - The changed settings.
+   */
+  const updateConfig = (change: Partial<SyncConfig>) => {
+    const nextConfig = { ...config, ...change };
+    setSyncConfig(nextConfig);
+    setConfigState(nextConfig);
+  };
+
+  /**
+   * Syncs with the target now.
+   */
+  const handleSync = async () => {
+    setBusy(true);
+    try {
+      const { pulled, pushed } = await syncNow(db);
+      Spicetify.showNotification(`Synced: ${describeMerge(pulled)}, ${pushed} changes sent`);
+      setLastSync(getSyncState()?.lastSync);
+    } catch (error) {
+      console.error("Failed to sync history:", error);
+      Spicetify.showNotification(`Failed to sync: ${error instanceof Error ? error.message : error}`, true);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /**
+   * Downloads the sync file of this machine.
+   */
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const count = await exportSyncFile(db);
+      Spicetify.showNotification(`Sync file exported with ${count} changes`);
+    } catch (error) {
+      console.error("Failed to export sync file:", error);
+      Spicetify.showNotification("Failed to export sync file", true);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /**
+   * Merges the chosen sync file into the history.
+   * @param file - The sync file.
+   */
+  const handleImport = async (file: File) => {
+    setBusy(true);
+    try {
+      const counts = await importSyncFile(db, file);
+      Spicetify.showNotification(`Sync file imported: ${describeMerge(counts)}`);
+    } catch (error) {
+      console.error("Failed to import sync file:", error);
+      Spicetify.showNotification(`Failed to import sync file: ${error instanceof Error ? error.message : error}`, true);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="syncView">
+      <h2>Sync target</h2>
+      <p>
+        A WebDAV server, or any HTTP endpoint that returns the sync document on GET and stores it on PUT.
+        It must allow requests from the Spotify client (CORS).
+      </p>
+      <label>
+        Document URL
+        <input
+          type="url"
+          value={config.url}
+          placeholder="https://example.com/dav/spicetify-history.json"
+          onChange={(event) => updateConfig({ url: event.target.value.trim() })}
+        />
+      </label>
+      <label>
+        Username
+        <input type="text" value={config.username} onChange={(event) => updateConfig({ username: event.target.value })} />
+      </label>
+      <label>
+        Password
+        <input type="password" value={config.password} onChange={(event) => updateConfig({ password: event.target.value })} />
+      </label>
+      <p className="syncHint">The credentials are stored unencrypted in the local storage of the Spotify client.</p>
+      <label>
+        <input type="checkbox" checked={config.auto} onChange={(event) => updateConfig({ auto: event.target.checked })} />
+        Sync automatically every 15 minutes
+      </label>
+      <div className="syncActions">
+        <button onClick={handleSync} disabled={busy || !config.url}>Sync now</button>
+        <span>{lastSync ? `Last synced ${formatDateTime(lastSync, settings)}` : "Never synced"}</span>
+      </div>
+
+      <h2>Sync file</h2>
+      <p>Without a sync target, export a sync file on one machine and import it on the other. Importing a file twice changes nothing.</p>
+      <div className="syncActions">
+        <button onClick={handleExport} disabled={busy}>Export sync file</button>
+        <button onClick={() => fileInputRef.current?.click()} disabled={busy}>Import sync file</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          hidden
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SyncView;
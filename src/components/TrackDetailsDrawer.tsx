@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from "react";
+import { HISTORY_UPDATED_EVENT } from "../db";
+import { TrackDetails, getTrackDetails } from "../trackDetails";
+import { formatDuration, formatListeningTime } from "../format";
+import { HistorySettings, formatDate, formatDateTime } from "../settings";
+
+interface TrackDetailsDrawerProps {
+  db: IDBDatabase;
+  /** The URI of the track shown. */
+  uri: string;
+  onClose: () => void;
+  /** Shows the details of another track, e.g. a co-played one. */
+  onSelectTrack: (uri: string) => void;
+  /** Lists the plays of the track in the history list. */
+  onShowInHistory: (uri: string) => void;
+  /** The display settings, for the date and time formats. */
+  settings: HistorySettings;
+}
+
+/**
+ * A side panel with what the history knows about a track: counts, listening time, skip rate, every listen, and the tracks played in the same sessions.
+ */
+const TrackDetailsDrawer: React.FC<TrackDetailsDrawerProps> = ({ db, uri, onClose, onSelectTrack, onShowInHistory, settings }) => {
+  // Details of the track, once read
+  const [details, setDetails] = useState<TrackDetails | null>(null);
+
+  // Read the details when the track changes, and again when the history changes.
+  useEffect(() => {
+    let current = true;
+    const fetchDetails = () => {
+      getTrackDetails(db, uri)
+        .then((trackDetails) => current && setDetails(trackDetails))
+        .catch((error) => console.error("Failed to read track details:", error));
+    };
+
+    setDetails(null);
+    fetchDetails();
+    window.addEventListener(HISTORY_UPDATED_EVENT, fetchDetails);
+    return () => {
+      current = false;
+      window.removeEventListener(HISTORY_UPDATED_EVENT, fetchDetails);
+    };
+  }, [db, uri]);
+
+  // Close on Escape.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const track = details?.track;
+
+  return (
+    <div className="trackDrawer">
+      <div className="trackDrawerHeader">
+        {track?.images?.[0]?.url && <img src={track.images[0].url} alt={track.name} className="trackDrawerImage" />}
+        <div className="trackDrawerTitle">
+          <h2 title={track?.name}>{track?.name ?? "…"}</h2>
+          <div>{track?.artists.map((artist) => artist.name).join(", ")}</div>
+        </div>
+        <button className="trackDrawerClose" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      {!details ? (
+        <p>Loading...</p>
+      ) : (
+        <>
+          <div className="trackDrawerActions">
+            <button onClick={() => Spicetify.Player.playUri(uri)}>Play</button>
+            <button onClick={() => onShowInHistory(uri)}>Show in history</button>
+          </div>
+
+          <table className="trackDrawerStats">
+            <tbody>
+              <tr><td>Plays</td><td>{details.playCount}</td></tr>
+              <tr><td>Skips</td><td>{details.skips} ({Math.round(details.skipRate * 100)}%)</td></tr>
+              <tr><td>Time listened</td><td>{formatListeningTime(details.listenedMs)}</td></tr>
+              <tr><td>First listen</td><td>{details.firstPlayed ? formatDate(details.firstPlayed, settings) : "-"}</td></tr>
+              <tr><td>Last listen</td><td>{details.lastPlayed ? formatDateTime(details.lastPlayed, settings) : "-"}</td></tr>
+            </tbody>
+          </table>
+
+          <h3>Played with</h3>
+          {details.coPlayed.length === 0 ? (
+            <p>No other tracks in the same sessions.</p>
+          ) : (
+            <ul className="trackDrawerCoPlayed">
+              {details.coPlayed.map((coPlayed) => (
+                <li key={coPlayed.uri} onClick={() => onSelectTrack(coPlayed.uri)} title={`In ${coPlayed.sessions} of the same sessions`}>
+                  <span className="trackDrawerCoPlayedName">{coPlayed.name}</span>
+                  <span className="trackDrawerCoPlayedArtists">{coPlayed.artists}</span>
+                  <span>{coPlayed.sessions}×</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <h3>Listens</h3>
+          <ul className="trackDrawerListens">
+            {details.plays.map((play) => (
+              <li key={play.playId} className={play.skipped ? "skipped" : ""}>
+                <span>{formatDateTime(play.listenDate, settings)}</span>
+                <span>{formatDuration(play.playedMs)}{play.skipped && " · skipped"}</span>
+              </li>
+            ))}
+            {details.rolledUp > 0 && <li>and {details.rolledUp} older plays rolled up into daily totals</li>}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TrackDetailsDrawer;
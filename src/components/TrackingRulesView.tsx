@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from "react";
+import {
+  getTrackingRules,
+  setTrackingRules,
+  parseExcludableUri,
+  resolveExcludedItem,
+  TrackingRules,
+  TRACKING_RULES_CHANGED_EVENT,
+} from "../trackingRules";
+
+/**
+ * Editor of the rules deciding which plays are recorded.
+ * Changes are stored as soon as they are made, and picked up by the extension on the next track.
+ */
+const TrackingRulesView: React.FC = () => {
+  // Current rules, kept in sync with changes made from the playbar or the context menu
+  const [rules, setRules] = useState<TrackingRules>(getTrackingRules);
+
+  // URI or link typed in the exclusion input
+  const [newExclusion, setNewExclusion] = useState<string>("");
+
+  useEffect(() => {
+    const handleRulesChanged = (event: Event) => setRules((event as CustomEvent<TrackingRules>).detail);
+    window.addEventListener(TRACKING_RULES_CHANGED_EVENT, handleRulesChanged);
+    return () => window.removeEventListener(TRACKING_RULES_CHANGED_EVENT, handleRulesChanged);
+  }, []);
+
+  /**
+   * Stores a change of the rules.
+   * @param change - The changed rules.
+   */
+  const updateRules = (change: Partial<TrackingRules>) => {
+    setTrackingRules({ ...getTrackingRules(), ...change });
+  };
+
+  /**
+   * Excludes the track, album, artist or playlist typed in the exclusion input.
+   */
+  const handleAddExclusion = async () => {
+    const uri = parseExcludableUri(newExclusion);
+    if (!uri) {
+      Spicetify.showNotification("Enter a Spotify URI or link to a track, album, artist or playlist");
+      return;
+    }
+    if (rules.excluded.some((item) => item.uri === uri)) {
+      Spicetify.showNotification("Already excluded");
+      return;
+    }
+    const item = await resolveExcludedItem(uri);
+    updateRules({ excluded: [...getTrackingRules().excluded, item] });
+    setNewExclusion("");
+  };
+
+  return (
+    <div className="trackingRulesView">
+      <label>
+        <input type="checkbox" checked={rules.paused} onChange={(event) => updateRules({ paused: event.target.checked })} />
+        Pause tracking
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={rules.honorPrivateSession}
+          onChange={(event) => updateRules({ honorPrivateSession: event.target.checked })}
+        />
+        Do not record plays during a private session
+      </label>
+      <label>
+        Do not record tracks shorter than
+        <input
+          type="number"
+          min={0}
+          value={rules.minDurationSeconds}
+          onChange={(event) => {
+            const value = parseInt(event.target.value);
+            if (!isNaN(value) && value >= 0) updateRules({ minDurationSeconds: value });
+          }}
+          className="thresholdInput"
+        />
+        seconds
+      </label>
+
+      <h2>Excluded tracks, albums, artists and playlists</h2>
+      <div className="trackingRulesAdd">
+        <input
+          type="text"
+          placeholder="Spotify URI or link"
+          value={newExclusion}
+          onChange={(event) => setNewExclusion(event.target.value)}
+          onKeyDown={(event) => event.key === "Enter" && handleAddExclusion()}
+        />
+        <button onClick={handleAddExclusion}>Exclude</button>
+      </div>
+      {rules.excluded.length === 0 ? (
+        <p>Nothing is excluded. Right-click a track, album, artist or playlist to exclude it.</p>
+      ) : (
+        <ul className="trackingRulesExcluded">
+          {rules.excluded.map((item) => (
+            <li key={item.uri}>
+              <span className="trackingRulesType">{item.uri.split(":")[1]}</span>
+              <span className="trackingRulesName" title={item.uri}>{item.name ?? item.uri}</span>
+              <button onClick={() => updateRules({ excluded: rules.excluded.filter((excluded) => excluded.uri !== item.uri) })}>
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TrackingRulesView;
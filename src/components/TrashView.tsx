@@ -0,0 +1,140 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { TrashEntry, getTrashFromDB, restoreFromTrashInDB, deleteFromTrashInDB, HISTORY_TRASHED_EVENT, HISTORY_UPDATED_EVENT } from "../db";
+import { getTrashRetentionDays, setTrashRetentionDays, purgeExpiredTrash } from "../trash";
+import { confirmAction } from "../confirmModal";
+import { HistorySettings, formatDate, formatDateTime } from "../settings";
+
+// Number of plays listed; a cleared history can fill the trash with more than can be rendered at once.
+const DISPLAY_LIMIT = 500;
+
+/**
+ * The plays in the trash, with actions to restore them or delete them permanently, and the number of days they are kept.
+ */
+const TrashView: React.FC<{ db: IDBDatabase; settings: HistorySettings }> = ({ db, settings }) => {
+  // Plays in the trash, most recently deleted first
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+
+  // Retention state, in days
+  const [retentionDays, setRetentionDaysState] = useState<number>(getTrashRetentionDays);
+
+  /**
+   * Reads the plays in the trash.
+   */
+  const fetchTrash = useCallback(async () => {
+    try {
+      setEntries(await getTrashFromDB(db));
+    } catch (error) {
+      console.error("Failed to fetch trash:", error);
+    }
+  }, [db]);
+
+  useEffect(() => {
+    fetchTrash();
+    // Deletions add to the trash, and undoing them from the snackbar takes from it.
+    window.addEventListener(HISTORY_TRASHED_EVENT, fetchTrash);
+    window.addEventListener(HISTORY_UPDATED_EVENT, fetchTrash);
+    return () => {
+      window.removeEventListener(HISTORY_TRASHED_EVENT, fetchTrash);
+      window.removeEventListener(HISTORY_UPDATED_EVENT, fetchTrash);
+    };
+  }, [fetchTrash]);
+
+  /**
+   * Puts plays back into the history.
+   * @param ids - The ids of the plays to restore.
+   */
+  const handleRestore = async (ids: string[]) => {
+    try {
+      const count = await restoreFromTrashInDB(db, ids);
+      Spicetify.showNotification(`Restored ${count} plays`);
+      fetchTrash();
+    } catch (error) {
+      console.error("Failed to restore plays:", error);
+      Spicetify.showNotification("Failed to restore plays", true);
+    }
+  };
+
+  /**
+   * Deletes plays permanently, once confirmed.
+   * @param ids - The ids of the plays to delete, or undefined to empty the trash.
+   */
+  const handleDeleteForever = async (ids?: string[]) => {
+    const message = ids ? "Permanently delete this play? It cannot be restored." : "Permanently delete every play in the trash? They cannot be restored.";
+    if (!(await confirmAction(ids ? "Delete Forever" : "Empty Trash", message, "Delete forever"))) return;
+    try {
+      await deleteFromTrashInDB(db, ids);
+      fetchTrash();
+    } catch (error) {
+      console.error("Failed to delete from trash:", error);
+      Spicetify.showNotification("Failed to delete from trash", true);
+    }
+  };
+
+  /**
+   * Handles changing the retention, purging the plays it no longer keeps.
+   * @param days - The new retention in days.
+   */
+  const handleRetentionChange = async (days: number) => {
+    if (isNaN(days) || days < 1) return;
+    setTrashRetentionDays(days);
+    setRetentionDaysState(days);
+    try {
+      await purgeExpiredTrash(db);
+      fetchTrash();
+    } catch (error) {
+      console.error("Failed to purge trash:", error);
+    }
+  };
+
+  return (
+    <div className="trashView">
+      <div className="trashControls">
+        <label>
+          Keep deleted plays for
+          <input
+            type="number"
+            min={1}
+            value={retentionDays}
+            onChange={(event) => handleRetentionChange(parseInt(event.target.value))}
+            className="thresholdInput"
+          />
+          days
+        </label>
+        <button onClick={() => handleRestore(entries.map((entry) => entry.id))} disabled={entries.length === 0}>Restore all</button>
+        <button onClick={() => handleDeleteForever()} disabled={entries.length === 0}>Empty trash</button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p>The trash is empty.</p>
+      ) : (
+        <ul className="trashList">
+          {entries.slice(0, DISPLAY_LIMIT).map((entry) => (
+            <li key={entry.id}>
+              {entry.song ? (
+                <div className="trashSong">
+                  <div className="trashSongName" title={entry.song.name}>{entry.song.name}</div>
+                  <div className="trashSongDetails">
+                    {entry.song.artists.map((artist) => artist.name).join(", ")} · played {formatDateTime(entry.song.listenDate, settings)}
+                  </div>
+                </div>
+              ) : entry.aggregate && (
+                <div className="trashSong">
+                  <div className="trashSongName" title={entry.aggregate.track.name}>{entry.aggregate.track.name}</div>
+                  <div className="trashSongDetails">
+                    {entry.aggregate.track.artists.map((artist) => artist.name).join(", ")} · {entry.aggregate.plays + entry.aggregate.skips} plays rolled up on {formatDate(entry.aggregate.dayStart, settings)}
+                  </div>
+                </div>
+              )}
+              <div className="trashDeletedAt">Deleted {formatDate(entry.deletedAt, settings)}</div>
+              <button onClick={() => handleRestore([entry.id])}>Restore</button>
+              <button onClick={() => handleDeleteForever([entry.id])}>Delete forever</button>
+            </li>
+          ))}
+          {entries.length > DISPLAY_LIMIT && <li>and {entries.length - DISPLAY_LIMIT} more</li>}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TrashView;
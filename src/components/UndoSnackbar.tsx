@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from "react";
+import { Deletion, HISTORY_TRASHED_EVENT, restoreDeletionFromDB } from "../db";
+
+// How long the snackbar stays after a deletion.
+const SNACKBAR_TIMEOUT_MS = 8000;
+
+/**
+ * Snackbar offering to undo the latest deletion, wherever it was made: the list, the selection, the "Delete Plays" modal or the context menu.
+ */
+const UndoSnackbar: React.FC<{ db: IDBDatabase }> = ({ db }) => {
+  // Latest deletion, until it is undone or the snackbar times out
+  const [deletion, setDeletion] = useState<Deletion | null>(null);
+
+  useEffect(() => {
+    const handleTrashed = (event: Event) => setDeletion((event as CustomEvent<Deletion>).detail);
+    window.addEventListener(HISTORY_TRASHED_EVENT, handleTrashed);
+    return () => window.removeEventListener(HISTORY_TRASHED_EVENT, handleTrashed);
+  }, []);
+
+  // Hide the snackbar a while after each deletion.
+  useEffect(() => {
+    if (!deletion) return;
+    const timeout = setTimeout(() => setDeletion(null), SNACKBAR_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, [deletion]);
+
+  /**
+   * Restores the plays of the deletion from the trash.
+   */
+  const handleUndo = async () => {
+    if (!deletion) return;
+    setDeletion(null);
+    try {
+      const count = await restoreDeletionFromDB(db, deletion.batchId);
+      Spicetify.showNotification(`Restored ${count} plays`);
+    } catch (error) {
+      console.error("Failed to undo deletion:", error);
+      Spicetify.showNotification("Failed to undo", true);
+    }
+  };
+
+  if (!deletion) return null;
+
+  return (
+    <div className="undoSnackbar">
+      <span>{deletion.count === 1 ? "Play moved to the trash" : `${deletion.count} plays moved to the trash`}</span>
+      <button onClick={handleUndo}>Undo</button>
+      <button onClick={() => setDeletion(null)}>Dismiss</button>
+    </div>
+  );
+};
+
+export default UndoSnackbar;
@@ -0,0 +1,63 @@
+/**
+ * confirmModal.ts
+ *
+ * A confirmation modal shown before destructive actions, such as clearing the history or emptying the trash.
+ */
+
+/**
+ * Displays a confirmation modal.
+ * Closing the modal without choosing counts as cancelling.
+ *
+ * @param title - The title of the modal.
+ * @param message - What the action does.
+ * @param confirmLabel - The label of the button confirming the action.
+ * @returns A promise that resolves to true if the action was confirmed, or false if it was cancelled.
+ */
+export const confirmAction = (title: string, message: string, confirmLabel: string): Promise<boolean> => {
+  return new Promise<boolean>((resolve) => {
+    const confirmModal = document.createElement("div");
+    confirmModal.className = "confirmModal";
+    confirmModal.innerHTML = `
+      <p class="confirmMessage"></p>
+      <div class="confirmButtons">
+        <button class="confirmCancelButton">Cancel</button>
+        <button class="importButton confirmButton"></button>
+      </div>
+    `;
+    (confirmModal.querySelector(".confirmMessage") as HTMLElement).textContent = message;
+
+    const confirmButton = confirmModal.querySelector(".confirmButton") as HTMLButtonElement;
+    confirmButton.textContent = confirmLabel;
+    confirmButton.addEventListener("click", () => {
+      Spicetify.PopupModal.hide();
+      resolve(true);
+    });
+    (confirmModal.querySelector(".confirmCancelButton") as HTMLButtonElement).addEventListener("click", () => {
+      Spicetify.PopupModal.hide();
+      resolve(false);
+    });
+
+    Spicetify.PopupModal.display({
+      title,
+      content: confirmModal,
+    });
+
+    // Resolve as cancelled once the modal is closed some other way, such as with its close button, Escape or a click outside.
+    // A promise only settles once, so this does nothing after a button was clicked.
+    let mounted = confirmModal.isConnected;
+    const observer = new MutationObserver(() => {
+      if (confirmModal.isConnected) {
+        mounted = true;
+        return;
+      }
+      if (!mounted) return;
+      observer.disconnect();
+      resolve(false);
+    });
+    observer.observe(document.body, { childList: true, subtree: true });
+
+    setTimeout(() => {
+      document.querySelector(".main-trackCreditsModal-container")?.classList.add("confirmModalContainer");
+    }, 100);
+  });
+};
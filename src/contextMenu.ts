@@ -0,0 +1,118 @@
+/**
+ * contextMenu.ts
+ *
+ * This module adds history actions to the right-click menu of tracks, albums and artists everywhere in the client:
+ * showing their plays in the History app, removing them from the history, excluding them from tracking,
+ * and a submenu with their play count and last listen date. Playlists can be excluded from tracking as well.
+ */
+
+import { deletePlaysByUriFromDB, getPlaySummaryFromDB } from "./db";
+import { isExcluded, setExcluded, resolveExcludedItem } from "./trackingRules";
+import { confirmAction } from "./confirmModal";
+import { formatDateTime, getSettings } from "./settings";
+
+/**
+ * The path of the History app.
+ */
+export const HISTORY_APP_PATH = "/spicetify-history";
+
+/**
+ * The query parameter of the History app holding the search to apply when it opens.
+ */
+export const HISTORY_SEARCH_PARAM = "search";
+
+/**
+ * Checks whether the menu was opened on a single track, album or artist.
+ */
+const isHistoryItem = (uris: string[]): boolean => uris.length === 1 && /^spotify:(track|album|artist):/.test(uris[0]);
+
+/**
+ * Checks whether the menu was opened on a single track, album, artist or playlist.
+ */
+const isExcludableItem = (uris: string[]): boolean => uris.length === 1 && /^spotify:(track|album|artist|playlist):/.test(uris[0]);
+
+/**
+ * Opens the History app, searching for the plays of a track, album or artist.
+ *
+ * @param uri - The URI of the track, album or artist.
+ */
+const showInHistory = (uri: string): void => {
+    Spicetify.Platform.History.push({
+        pathname: HISTORY_APP_PATH,
+        search: `?${HISTORY_SEARCH_PARAM}=${encodeURIComponent(`uri:${uri}`)}`,
+    });
+};
+
+/**
+ * Registers the history actions of the context menu.
+ *
+ * @param db - The open IndexedDB database instance.
+ */
+export const registerContextMenu = (db: IDBDatabase): void => {
+    new Spicetify.ContextMenu.Item(
+        "Show in listening history",
+        ([uri]) => showInHistory(uri),
+        isHistoryItem,
+        "search"
+    ).register();
+
+    new Spicetify.ContextMenu.Item(
+        "Remove from history",
+        async ([uri]) => {
+            const [, type] = uri.split(":");
+            if (!(await confirmAction("Remove from History", `Move every play of this ${type} to the trash?`, "Remove"))) return;
+            try {
+                const { count } = await deletePlaysByUriFromDB(db, uri);
+                Spicetify.showNotification(count ? `Moved ${count} plays to the trash` : "Nothing to remove from history");
+            } catch (error) {
+                console.error("Failed to remove plays:", error);
+                Spicetify.showNotification("Failed to remove from history", true);
+            }
+        },
+        isHistoryItem,
+        "x"
+    ).register();
+
+    // The label reflects whether the item is already excluded when the menu opens.
+    const excludeItem = new Spicetify.ContextMenu.Item(
+        "Exclude from tracking",
+        async ([uri]) => {
+            if (isExcluded(uri)) {
+                setExcluded({ uri }, false);
+                Spicetify.showNotification("Included in tracking again");
+                return;
+            }
+            setExcluded(await resolveExcludedItem(uri), true);
+            Spicetify.showNotification("Excluded from tracking");
+        },
+        (uris) => {
+            if (!isExcludableItem(uris)) return false;
+            excludeItem.name = isExcluded(uris[0]) ? "Include in tracking" : "Exclude from tracking";
+            return true;
+        },
+        "block"
+    );
+    excludeItem.register();
+
+    // The play count and last listen date are read when the menu opens, and filled in once read.
+    const playsItem = new Spicetify.ContextMenu.Item("Plays: …", () => {}, undefined, "chart-up", true);
+    const lastPlayedItem = new Spicetify.ContextMenu.Item("Last played: …", () => {}, undefined, "clock", true);
+    new Spicetify.ContextMenu.SubMenu(
+        "Listening history",
+        [playsItem, lastPlayedItem],
+        (uris) => {
+            if (!isHistoryItem(uris)) return false;
+            playsItem.name = "Plays: …";
+            lastPlayedItem.name = "Last played: …";
+            // The settings are read as the menu opens, so changes made in the app apply to the next menu.
+            const settings = getSettings();
+            getPlaySummaryFromDB(db, uris[0])
+                .then((summary) => {
+                    playsItem.name = `Plays: ${summary.plays}`;
+                    lastPlayedItem.name = `Last played: ${summary.lastPlayed ? formatDateTime(summary.lastPlayed, settings) : "never"}`;
+                })
+                .catch((error) => console.error("Failed to summarize plays:", error));
+            return true;
+        }
+    ).register();
+};
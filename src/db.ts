@@ -2,16 +2,57 @@
  * db.ts
  *
  * This module handles all IndexedDB operations for the Spicetify History extension.
- * It provides functions to open the database, save a song record, retrieve all records, delete individual records, clear the history, export history and import history.
+ * It provides functions to open the database, save a song record, retrieve all records, delete individual records, clear the history and import history.
+ * Export files are written by `exporter.ts` from the batches read by `getHistoryBatchFromDB`.
  *
- * The database is named "spicetifyHistoryDB" and uses version 1.
- * An object store named "history" is created with a keyPath of "uid", which is assumed to be a unique identifier for each song.
+ * The database is named "spicetifyHistoryDB". Its schema version and upgrade steps are defined in `migrations.ts`.
+ * Listening history is stored as an append-only log of play events in the "plays" object store, keyed by a per-play "id".
+ * Each play points to a deduplicated track record in the "tracks" object store, keyed by the track "uri".
+ * Plays to submit to a scrobbling service wait in the "scrobbles" object store, keyed by play id, until they are submitted.
+ * Deleted plays are moved to the "trash" object store, keyed by play id, from which they can be restored until they expire.
+ * Plays older than the retention are rolled up into per-track daily totals in the "aggregates" object store, which the statistics and charts still count.
+ * Snapshots of the history are kept as restore points: their summary in the "restorePoints" object store and their records in "restorePointData", both keyed by creation time.
+ * The last change of each play, including its deletion, is recorded in the "changes" object store, keyed by play id, so that sync only pushes what changed.
  */
 
+import { DB_VERSION, runMigrations } from "./migrations";
+
+/**
+ * The kinds of items recorded: music tracks, podcast episodes and audiobook chapters.
+ */
+export type MediaType = "track" | "episode" | "chapter";
+
+/**
+ * The kinds of sources a play comes from. "collection" is the user's Liked Songs or saved episodes.
+ */
+export type ContextType = "playlist" | "album" | "artist" | "show" | "audiobook" | "collection" | "radio" | "search" | "other";
+
+/**
+ * Where a play comes from, and how the player was set to play it.
+ */
+export interface PlayContext {
+    /** The URI of the playlist, album or other source, or an empty string when the track was played on its own. */
+    uri: string;
+    type: ContextType;
+    /** The name shown in the app, when it could be read. */
+    name?: string;
+    shuffle: boolean;
+    /** 0 for no repeat, 1 to repeat the context, 2 to repeat the track. */
+    repeat: number;
+    /** Whether the track was picked by autoplay after the source ended. */
+    autoplay: boolean;
+}
+
+/**
+ * A single play of a track joined with its track record, as used by the app and the export/import files.
+ * Episodes and chapters are recorded like tracks, with their show or audiobook in place of the album.
+ */
 export interface Song {
+    playId: string;
     uid: string;
     uri: string;
     name: string;
+    mediaType: MediaType;
     duration: {
         milliseconds: number;
     };
@@ -29,276 +70,2601 @@ export interface Song {
         label: string;
     }[];
     listenDate: number;
+    playedMs: number;
+    skipped: boolean;
+    /** The playback position when the play ended, in milliseconds. Only recorded for episodes and chapters, to resume them. */
+    position?: number;
+    /** Where the play comes from. Missing for plays recorded before sources were tracked. */
+    context?: PlayContext;
+}
+
+/**
+ * A deduplicated track record stored in the "tracks" object store.
+ */
+export type Track = Omit<Song, "playId" | "uid" | "listenDate" | "playedMs" | "skipped" | "position" | "context">;
+
+/**
+ * A play event stored in the "plays" object store.
+ */
+export interface Play {
+    id: string;
+    uri: string;
+    uid: string;
+    listenDate: number;
+    /** The time the track was actually listened to, in milliseconds. */
+    playedMs: number;
+    /** True if the play did not reach the play threshold. */
+    skipped: boolean;
+    /** The playback position when the play ended, for episodes and chapters. */
+    position?: number;
+    context?: PlayContext;
+    /** Copies of track fields, so the "name", "album" and "duration" indexes can sort plays. */
+    name: string;
+    albumName: string;
+    durationMs: number;
+}
+
+/**
+ * The columns the history can be sorted by.
+ */
+export type SortKey = "date" | "name" | "album" | "duration" | "plays";
+
+/**
+ * The sort order of the history.
+ */
+export interface SortConfig {
+    key: SortKey;
+    ascending: boolean;
+}
+
+/**
+ * The index of the "plays" object store used for each sort column. Play counts change with every play, so they have no index.
+ */
+const SORT_INDEXES: Record<Exclude<SortKey, "plays">, string> = {
+    date: "listenDate",
+    name: "name",
+    album: "album",
+    duration: "duration",
+};
+
+/**
+ * The window event dispatched after the history has changed.
+ * Its detail is the saved song when a single play was saved, and undefined when many plays changed at once, e.g. after an import.
+ */
+export const HISTORY_UPDATED_EVENT = "spicetify-history:updated";
+
+/**
+ * Builds the key of a play event from the played track and the time it was played.
+ * The same play always gets the same id, so re-importing a play does not duplicate it.
+ *
+ * @param uri - The URI of the played track.
+ * @param listenDate - The time the track was played, in milliseconds since the epoch.
+ * @returns The play id.
+ */
+export const createPlayId = (uri: string, listenDate: number): string => `${listenDate}|${uri}`;
+
+/**
+ * The metadata fields kept in track records. The others repeat fields of the track record, such as its title or images,
+ * or only describe the client state when the track was recorded.
+ */
+const KEPT_METADATA_FIELDS = ["album_artist_name", "album_track_number", "album_disc_number", "is_explicit", "popularity"];
+
+/**
+ * Strips the redundant metadata fields of a track record, and keeps only the image the app shows.
+ *
+ * @param track - The track record.
+ * @returns The compacted track record.
+ */
+const compactTrack = (track: Track): Track => ({
+    ...track,
+    metadata: Object.fromEntries(
+        Object.entries(track.metadata ?? {}).filter(([key]) => KEPT_METADATA_FIELDS.includes(key))
+    ),
+    images: (track.images ?? []).slice(0, 1),
+});
+
+/**
+ * Splits a song into its compacted track record and its play event.
+ *
+ * @param song - The song to split.
+ * @returns The track and play records to store.
+ */
+const splitSong = (song: Song): { track: Track; play: Play } => {
+    const { playId, uid, listenDate, playedMs, skipped, position, context, ...track } = song;
+    return {
+        track: compactTrack(track),
+        play: {
+            id: playId || createPlayId(song.uri, listenDate),
+            uri: song.uri,
+            uid,
+            listenDate,
+            playedMs,
+            skipped,
+            ...(position !== undefined && { position }),
+            ...(context !== undefined && { context }),
+            name: song.name,
+            albumName: song.album?.name ?? "",
+            durationMs: song.duration.milliseconds,
+        },
+    };
+};
+
+/**
+ * Joins a play event with its track record.
+ *
+ * @param play - The play event.
+ * @param track - The track record the play points to.
+ * @returns The joined song.
+ */
+const joinPlay = (play: Play, track: Track): Song => ({
+    ...track,
+    playId: play.id,
+    uid: play.uid,
+    listenDate: play.listenDate,
+    playedMs: play.playedMs,
+    skipped: play.skipped,
+    ...(play.position !== undefined && { position: play.position }),
+    ...(play.context !== undefined && { context: play.context }),
+});
+
+/**
+ * The record of the last change of a play, kept so that sync knows what to push and does not bring deleted plays back.
+ */
+interface ChangeRecord {
+    /** The id of the play. */
+    id: string;
+    changedAt: number;
+    deleted: boolean;
+    /** The machine the change was made on, set once it is synced or when it was pulled from another machine. */
+    device?: string;
 }
 
 /**
- * Opens the IndexedDB database.
+ * Records that plays changed, within a readwrite transaction on the "changes" object store.
+ *
+ * @param transaction - The transaction the plays are changed in.
+ * @param ids - The ids of the changed plays.
+ * @param deleted - Whether the plays were deleted.
+ */
+const recordChanges = (transaction: IDBTransaction, ids: string[], deleted: boolean): void => {
+    const changeStore = transaction.objectStore("changes");
+    const changedAt = Date.now();
+    for (const id of ids) {
+        const change: ChangeRecord = { id, changedAt, deleted };
+        changeStore.put(change);
+    }
+};
+
+/**
+ * Opens the IndexedDB database, applying any pending schema migrations first.
+ * A database written by a newer version of the app is refused instead of being opened.
  *
  * @returns A promise that resolves to an open IDBDatabase instance.
  */
 export const openDB = (): Promise<IDBDatabase> => {
     const dbName: string = "SpicetifyHistoryDB";
-    const dbVersion: number = 1;
-    let db;
     
     return new Promise<IDBDatabase>((resolve: (db: IDBDatabase) => void, reject: (reason: string) => void) => {
-        const request = indexedDB.open(dbName, dbVersion);
+        const request = indexedDB.open(dbName, DB_VERSION);
     
         request.onerror = (event: Event) => {
-            const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
-            console.error("Database error:", (event.target as IDBRequest).error);
-            reject(errorMessage);
+            const error = (event.target as IDBRequest).error;
+            console.error("Database error:", error);
+            if (error?.name === "VersionError") {
+                Spicetify.showNotification("History was saved by a newer version of Spicetify History. Please update the app.", true);
+                reject(`Database version is newer than ${DB_VERSION}`);
+                return;
+            }
+            reject(error?.message || "Unknown error");
         };
     
         request.onsuccess = (event: Event) => {
-            db = (event.target as IDBRequest).result as IDBDatabase;
+            const db = (event.target as IDBRequest).result as IDBDatabase;
+            // Let a newer version of the app upgrade the database from another window.
+            db.onversionchange = () => db.close();
             console.log("Database opened successfully");
             resolve(db);
         }
     
-        request.onupgradeneeded = (event: Event) => {
+        request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
             const db = (event.target as IDBRequest).result as IDBDatabase;
-            if (!db.objectStoreNames.contains("history")) {
-                const objectStore = db.createObjectStore("history", { keyPath: "uid" });
-                objectStore.createIndex("name", "name", { unique: false });
-                objectStore.createIndex("uri", "uri", { unique: true });
-                objectStore.createIndex("listenDate", "listenDate", { unique: false });
-                console.log("Object store 'history' created");
-            }
+            const transaction = (event.target as IDBOpenDBRequest).transaction as IDBTransaction;
+            runMigrations(db, transaction, event.oldVersion, event.newVersion ?? DB_VERSION);
         }
     });
 }
 
 /**
- * Saves a song record to the "history" object store.
+ * Records a play of a song.
+ * The track record in the "tracks" object store is created or refreshed, and the play event is added to the "plays" object store.
+ * Saving the same play again updates it, which is how the listened time of an ongoing play is kept current.
  *
  * @param db - The open IndexedDB database instance.
  * @param song - The song object to be saved.
- * @returns A promise that resolves when the song is successfully saved.
+ * @returns A promise that resolves when the play is successfully saved.
  */
 export const saveSongToDB = (db: IDBDatabase, song: Song): Promise<void> => {
   return new Promise<void>((resolve, reject) => {
-    const transaction = db.transaction(["history"], "readwrite");
-    const objectStore = transaction.objectStore("history");
-    const index = objectStore.index("uri");
-    const indexRequest = index.get(song.uri);
+    const transaction = db.transaction(["tracks", "plays", "changes"], "readwrite");
+    const { track, play } = splitSong(song);
+    transaction.objectStore("tracks").put(track);
+    transaction.objectStore("plays").put(play);
+    recordChanges(transaction, [play.id], false);
 
-    indexRequest.onerror = (event: Event) => {
+    transaction.onerror = (event: Event) => {
       const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
-      console.error("Error retrieving song by uri:", errorMessage);
+      console.error("Error saving song:", errorMessage);
       reject(errorMessage);
     };
 
-    indexRequest.onsuccess = (event: Event) => {
-      const foundSong = (event.target as IDBRequest).result as Song | undefined;
-      if (foundSong) {
-        console.log(`Song found in index for uri ${song.uri}:`, foundSong);
-        foundSong.listenDate = song.listenDate;
-        const updateRequest = objectStore.put(foundSong);
-
-        updateRequest.onerror = (event: Event) => {
-          const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
-          console.error("Error updating song:", errorMessage);
-          reject(errorMessage);
-        };
-
-        updateRequest.onsuccess = () => {
-          console.log("Song listenDate updated:", foundSong.name);
-          resolve();
-        };
-      } else {
-        const addRequest = objectStore.add(song);
-
-        addRequest.onerror = (event: Event) => {
-          const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
-          console.error("Error saving song:", errorMessage);
-          reject(errorMessage);
-        };
-
-        addRequest.onsuccess = () => {
-          console.log("Song added to IndexedDB:", song.name);
-          resolve();
-        };
-      }
+    transaction.oncomplete = () => {
+      console.log("Play saved to IndexedDB:", song.name);
+      window.dispatchEvent(new CustomEvent<Song>(HISTORY_UPDATED_EVENT, { detail: song }));
+      resolve();
     };
   });
 };
 
 /**
- * Retrieves all song records from the "history" object store.
+ * Retrieves all play events joined with their track records.
  * 
  * @param db - The open IndexedDB database instance.
- * @returns A promise that resolves to an array of song records.
+ * @returns A promise that resolves to an array of song records, one per play.
  */
 export const getHistoryFromDB = (db: IDBDatabase): Promise<Song[]> => {
-  return new Promise<Song[]>((resolve: (songs: any[]) => void, reject: (reason: string) => void) => {
-    const transaction = db.transaction(["history"], "readonly");
-    const objectStore = transaction.objectStore("history");
-    const request = objectStore.getAll();
+  return new Promise<Song[]>((resolve: (songs: Song[]) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays"], "readonly");
+    const tracksRequest = transaction.objectStore("tracks").getAll();
+    const playsRequest = transaction.objectStore("plays").getAll();
 
-    request.onerror = (event: Event) => {
+    transaction.onerror = (event: Event) => {
       const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
       console.error("Error retrieving history:", errorMessage);
       reject(errorMessage);
     };
 
-    request.onsuccess = (event: Event) => {
-      const songs = (event.target as IDBRequest).result as Song[];
+    transaction.oncomplete = () => {
+      const tracks = new Map<string, Track>();
+      for (const track of tracksRequest.result as Track[]) {
+        tracks.set(track.uri, track);
+      }
+      const songs: Song[] = [];
+      for (const play of playsRequest.result as Play[]) {
+        const track = tracks.get(play.uri);
+        if (track) songs.push(joinPlay(play, track));
+      }
       resolve(songs);
     };
   });
 };
 
 /**
- * Deletes a specific song from the "history" object store by its uid.
+ * Compares two songs in the order `getHistoryPageFromDB` reads them.
+ * Index keys compare by code unit rather than by locale, and ties are broken by play id, like the index itself.
+ *
+ * @param a - The first song.
+ * @param b - The second song.
+ * @param sort - The sort order.
+ * @param playCounts - The play counts per track URI, needed to sort by play count.
+ * @returns A negative number if `a` comes first, a positive number if `b` comes first, zero if they are the same play.
+ */
+export const compareSongs = (a: Song, b: Song, sort: SortConfig, playCounts?: Map<string, number>): number => {
+    const sortValue = (song: Song): string | number => {
+        if (sort.key === "plays") return playCounts?.get(song.uri) ?? 0;
+        if (sort.key === "name") return song.name;
+        if (sort.key === "album") return song.album?.name ?? "";
+        if (sort.key === "duration") return song.duration.milliseconds;
+        return song.listenDate;
+    };
+    const valueA = sortValue(a);
+    const valueB = sortValue(b);
+    let result = valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+    if (result === 0) result = a.playId < b.playId ? -1 : a.playId > b.playId ? 1 : 0;
+    return sort.ascending ? result : -result;
+};
+
+/**
+ * A page of the history, as read by `getHistoryPageFromDB`.
+ */
+export interface HistoryPage {
+    songs: Song[];
+    /** True if more songs follow this page. */
+    hasMore: boolean;
+}
+
+/**
+ * Reads a page of plays sorted by the play count of their track. Without an index to read from, every play is read and sorted.
+ */
+const getHistoryPageByPlayCountFromDB = async (
+  db: IDBDatabase,
+  sort: SortConfig,
+  offset: number,
+  limit: number,
+  filter?: (song: Song) => boolean
+): Promise<HistoryPage> => {
+  const [playCounts, history] = await Promise.all([getPlayCountsFromDB(db), getHistoryFromDB(db)]);
+  const songs = (filter ? history.filter(filter) : history).sort((a, b) => compareSongs(a, b, sort, playCounts));
+  return { songs: songs.slice(offset, offset + limit), hasMore: songs.length > offset + limit };
+};
+
+/**
+ * Reads a page of plays, joined with their track records, in the given sort order.
+ * Plays are read with a cursor on the index of the sort column, so only the requested page is loaded, except when sorting by play count.
+ * When a filter is given, `offset` and `limit` count the plays that pass it.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param sort - The sort order.
+ * @param offset - The number of plays to skip.
+ * @param limit - The maximum number of plays to read.
+ * @param filter - An optional predicate the plays must pass.
+ * @returns A promise that resolves to the page.
+ */
+export const getHistoryPageFromDB = (
+  db: IDBDatabase,
+  sort: SortConfig,
+  offset: number,
+  limit: number,
+  filter?: (song: Song) => boolean
+): Promise<HistoryPage> => {
+  if (sort.key === "plays") return getHistoryPageByPlayCountFromDB(db, sort, offset, limit, filter);
+  const index = SORT_INDEXES[sort.key];
+  return new Promise<HistoryPage>((resolve: (page: HistoryPage) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays"], "readonly");
+    const trackStore = transaction.objectStore("tracks");
+    const request = transaction.objectStore("plays")
+      .index(index)
+      .openCursor(null, sort.ascending ? "next" : "prev");
+    const tracks = new Map<string, Track | undefined>();
+    const songs: Song[] = [];
+    let matched = 0;
+    let advanced = filter !== undefined || offset === 0;
+
+    const visit = (cursor: IDBCursorWithValue, track: Track | undefined) => {
+      if (track) {
+        const song = joinPlay(cursor.value as Play, track);
+        if (!filter || filter(song)) {
+          if (matched >= offset) songs.push(song);
+          matched++;
+        }
+      }
+      // Read one song past the page to know whether more follow.
+      if (songs.length <= limit) cursor.continue();
+    };
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (!advanced) {
+        advanced = true;
+        matched = offset;
+        cursor.advance(offset);
+        return;
+      }
+      const uri = (cursor.value as Play).uri;
+      if (tracks.has(uri)) {
+        visit(cursor, tracks.get(uri));
+        return;
+      }
+      const trackRequest = trackStore.get(uri);
+      trackRequest.onsuccess = () => {
+        tracks.set(uri, trackRequest.result);
+        visit(cursor, trackRequest.result);
+      };
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error retrieving history page:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      resolve({ songs: songs.slice(0, limit), hasMore: songs.length > limit });
+    };
+  });
+};
+
+/**
+ * A position in the "listenDate" index, after which `getHistoryBatchFromDB` continues reading.
+ */
+export interface HistoryBatchCursor {
+    listenDate: number;
+    playId: string;
+}
+
+/**
+ * Reads a batch of plays in a date range, joined with their track records, in chronological order.
+ * Each batch is read in its own transaction, so a large history can be processed a batch at a time without holding a transaction open.
  *
  * @param db - The open IndexedDB database instance.
- * @param uid - The unique identifier of the song to delete.
- * @returns A promise that resolves when the song is successfully deleted.
+ * @param limit - The maximum number of plays to read.
+ * @param from - The earliest listen date included, or undefined for no lower bound.
+ * @param to - The latest listen date included, or undefined for no upper bound.
+ * @param after - The last play of the previous batch, or undefined to read the first batch.
+ * @returns A promise that resolves to the plays of the batch, fewer than `limit` only for the last one.
  */
-export const deleteSongFromDB = (db: IDBDatabase, uid: string): Promise<void> => {
-    return new Promise<void>((resolve: () => void, reject: (reason: string) => void) => {
-        Spicetify.showNotification("Deleting song...");
-        const transaction = db.transaction(["history"], "readwrite");
-        const objectStore = transaction.objectStore("history");
-        const request = objectStore.delete(uid);
+export const getHistoryBatchFromDB = (
+  db: IDBDatabase,
+  limit: number,
+  from?: number,
+  to?: number,
+  after?: HistoryBatchCursor
+): Promise<Song[]> => {
+  return new Promise<Song[]>((resolve: (songs: Song[]) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays"], "readonly");
+    const trackStore = transaction.objectStore("tracks");
+    const request = transaction.objectStore("plays")
+      .index("listenDate")
+      .openCursor(listenDateRange(after ? after.listenDate : from, to));
+    const tracks = new Map<string, Track | undefined>();
+    const songs: Song[] = [];
 
-        request.onerror = (event: Event) => {
+    const visit = (cursor: IDBCursorWithValue, track: Track | undefined) => {
+      if (track) songs.push(joinPlay(cursor.value as Play, track));
+      if (songs.length < limit) cursor.continue();
+    };
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      // Skip the plays up to the last one of the previous batch.
+      if (after && cursor.key === after.listenDate && indexedDB.cmp(cursor.primaryKey, after.playId) <= 0) {
+        if (indexedDB.cmp(cursor.primaryKey, after.playId) < 0) {
+          cursor.continuePrimaryKey(after.listenDate, after.playId);
+        } else {
+          cursor.continue();
+        }
+        return;
+      }
+      const uri = (cursor.value as Play).uri;
+      if (tracks.has(uri)) {
+        visit(cursor, tracks.get(uri));
+        return;
+      }
+      const trackRequest = trackStore.get(uri);
+      trackRequest.onsuccess = () => {
+        tracks.set(uri, trackRequest.result);
+        visit(cursor, trackRequest.result);
+      };
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error retrieving history batch:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve(songs);
+  });
+};
+
+/**
+ * Plays moved to the trash by a single action, which can be undone as a whole.
+ */
+export interface Deletion {
+    batchId: string;
+    count: number;
+}
+
+/**
+ * A deleted play, or the deleted daily totals of rolled up plays, kept in the "trash" object store until it is restored or expires.
+ * Exactly one of `song` and `aggregate` is set.
+ */
+export interface TrashEntry {
+    /** The id of the play, or "aggregate|" followed by the id of the daily totals. */
+    id: string;
+    /** The play joined with its track record, so it can be restored after the track record is gone. */
+    song?: Song;
+    /** The daily totals of rolled up plays. */
+    aggregate?: DailyAggregate;
+    deletedAt: number;
+    /** Groups the plays deleted by the same action. */
+    batchId: string;
+}
+
+/**
+ * The window event dispatched after plays were moved to the trash. Its detail is the `Deletion`, so it can be undone.
+ */
+export const HISTORY_TRASHED_EVENT = "spicetify-history:trashed";
+
+/**
+ * Builds the id grouping the plays deleted by one action.
+ */
+const createBatchId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Moves plays to the trash, within a readwrite transaction on the "tracks", "plays", "trash" and "changes" object stores.
+ * Each play is stored in the trash joined with its track record, and track records left without plays are deleted.
+ *
+ * @param transaction - The transaction to delete the plays in.
+ * @param plays - The plays to delete.
+ * @param batchId - The id grouping the plays deleted by the same action.
+ */
+const trashPlays = (transaction: IDBTransaction, plays: Play[], batchId: string): void => {
+    const trackStore = transaction.objectStore("tracks");
+    const playStore = transaction.objectStore("plays");
+    const trashStore = transaction.objectStore("trash");
+    const deletedAt = Date.now();
+
+    const playsByUri = new Map<string, Play[]>();
+    for (const play of plays) {
+        playsByUri.set(play.uri, [...(playsByUri.get(play.uri) ?? []), play]);
+    }
+
+    for (const [uri, trackPlays] of playsByUri) {
+        const trackRequest = trackStore.get(uri);
+        trackRequest.onsuccess = () => {
+            const track = trackRequest.result as Track | undefined;
+            for (const play of trackPlays) {
+                if (track) {
+                    const entry: TrashEntry = { id: play.id, song: joinPlay(play, track), deletedAt, batchId };
+                    trashStore.put(entry);
+                }
+                playStore.delete(play.id);
+            }
+            recordChanges(transaction, trackPlays.map((play) => play.id), true);
+            const countRequest = playStore.index("uri").count(uri);
+            countRequest.onsuccess = () => {
+                if (countRequest.result === 0) trackStore.delete(uri);
+            };
+        };
+    }
+};
+
+/**
+ * Moves the daily totals of rolled up plays to the trash, within a readwrite transaction on the "aggregates" and "trash" object stores.
+ *
+ * @param transaction - The transaction to delete the totals in.
+ * @param aggregates - The totals to delete.
+ * @param batchId - The id grouping the plays deleted by the same action.
+ * @returns The number of rolled up plays deleted, skips included.
+ */
+const trashAggregates = (transaction: IDBTransaction, aggregates: DailyAggregate[], batchId: string): number => {
+    const aggregateStore = transaction.objectStore("aggregates");
+    const trashStore = transaction.objectStore("trash");
+    const deletedAt = Date.now();
+    let count = 0;
+    for (const aggregate of aggregates) {
+        const entry: TrashEntry = { id: `aggregate|${aggregate.id}`, aggregate, deletedAt, batchId };
+        trashStore.put(entry);
+        aggregateStore.delete(aggregate.id);
+        count += aggregate.plays + aggregate.skips;
+    }
+    return count;
+};
+
+/**
+ * Announces plays moved to the trash.
+ *
+ * @param deletion - The deletion.
+ * @param reload - Whether the app has to reload its list, as opposed to removing a single play it already knows about.
+ */
+const announceDeletion = (deletion: Deletion, reload: boolean): void => {
+    if (deletion.count === 0) return;
+    if (reload) window.dispatchEvent(new CustomEvent(HISTORY_UPDATED_EVENT));
+    window.dispatchEvent(new CustomEvent<Deletion>(HISTORY_TRASHED_EVENT, { detail: deletion }));
+};
+
+/**
+ * Moves a single play event to the trash.
+ * The track record is removed as well once no play points to it anymore.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param playId - The id of the play to delete.
+ * @returns A promise that resolves to the deletion once the play is in the trash.
+ */
+export const deleteSongFromDB = (db: IDBDatabase, playId: string): Promise<Deletion> => {
+    return new Promise<Deletion>((resolve: (deletion: Deletion) => void, reject: (reason: string) => void) => {
+        const transaction = db.transaction(["tracks", "plays", "trash", "changes"], "readwrite");
+        const deletion: Deletion = { batchId: createBatchId(), count: 0 };
+        const request = transaction.objectStore("plays").get(playId);
+
+        request.onsuccess = () => {
+            const play = request.result as Play | undefined;
+            if (!play) return;
+            trashPlays(transaction, [play], deletion.batchId);
+            deletion.count = 1;
+        };
+
+        transaction.onerror = (event: Event) => {
             const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
             console.error("Error deleting song:", (event.target as IDBRequest).error);
             Spicetify.showNotification("Failed to delete song");
             reject(errorMessage);
         }
 
-        request.onsuccess = (event: Event) => {
+        transaction.oncomplete = () => {
             console.log("Successfully deleted song.");
-            Spicetify.showNotification("Song deleted");
-            resolve();
+            announceDeletion(deletion, false);
+            resolve(deletion);
         }
     });
 }
 
 
 /**
- * Clears all song records from the "history" object store.
+ * Moves all play events and rolled up plays to the trash and deletes all track records.
  * 
  * @param db - The open IndexedDB database instance.
- * @returns A promise that resolves when the history is cleared.
+ * @returns A promise that resolves to the deletion once the history is cleared.
  */
-export const clearHistoryFromDB = (db: IDBDatabase): Promise<void> => {
-    return new Promise<void>((resolve: () => void, reject: (reason: string) => void) => {
+export const clearHistoryFromDB = (db: IDBDatabase): Promise<Deletion> => {
+    return new Promise<Deletion>((resolve: (deletion: Deletion) => void, reject: (reason: string) => void) => {
         Spicetify.showNotification("Clearing history...");
-        const transaction = db.transaction(["history"], "readwrite");
-        const objectStore = transaction.objectStore("history");
-        const request = objectStore.clear();
+        const transaction = db.transaction(["tracks", "plays", "aggregates", "trash", "changes"], "readwrite");
+        const trackStore = transaction.objectStore("tracks");
+        const playStore = transaction.objectStore("plays");
+        const deletion: Deletion = { batchId: createBatchId(), count: 0 };
+        const tracksRequest = trackStore.getAll();
+        const playsRequest = playStore.getAll();
+        const aggregatesRequest = transaction.objectStore("aggregates").getAll();
 
-        request.onerror = (event: Event) => {
+        aggregatesRequest.onsuccess = () => {
+            deletion.count += trashAggregates(transaction, aggregatesRequest.result as DailyAggregate[], deletion.batchId);
+        };
+
+        playsRequest.onsuccess = () => {
+            const tracks = new Map<string, Track>();
+            for (const track of tracksRequest.result as Track[]) {
+                tracks.set(track.uri, track);
+            }
+            const trashStore = transaction.objectStore("trash");
+            const deletedAt = Date.now();
+            for (const play of playsRequest.result as Play[]) {
+                const track = tracks.get(play.uri);
+                if (track) {
+                    const entry: TrashEntry = { id: play.id, song: joinPlay(play, track), deletedAt, batchId: deletion.batchId };
+                    trashStore.put(entry);
+                }
+                deletion.count++;
+            }
+            recordChanges(transaction, (playsRequest.result as Play[]).map((play) => play.id), true);
+            trackStore.clear();
+            playStore.clear();
+        };
+
+        transaction.onerror = (event: Event) => {
             const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
             console.error("Error clearing history:", (event.target as IDBRequest).error);
             Spicetify.showNotification("Failed to clear history");
             reject(errorMessage);
         }
 
-        request.onsuccess = (event: Event) => {
+        transaction.oncomplete = () => {
             console.log("Successfully cleared history.");
-            Spicetify.showNotification("History cleared");
-            resolve();
+            announceDeletion(deletion, false);
+            resolve(deletion);
         }
     })
 }
 
 /**
- * Exports the user's history as a downloadable JSON file.
- * 
- * @param db - The open IndexedDB database instance.
- * @returns A Promise that resolves when the file download is triggered.
+ * Checks whether a track record is the given track, or is on the given album or by the given artist.
+ *
+ * @param track - The track record.
+ * @param uri - The URI of a track, album or artist.
+ * @returns True if the track matches the URI.
  */
-export const exportHistoryAsFile = async (db: IDBDatabase): Promise<void> => {
-    Spicetify.showNotification("Exporting history...");
-    try {
-        const history = await getHistoryFromDB(db);
-        if (history.length === 0) {
-            Spicetify.showNotification("No history to export");
-            return;
-        }
-        history.sort((a, b) => a.listenDate - b.listenDate);
-        const jsonData = JSON.stringify(history, null, 2);
-        const blob = new Blob([jsonData], { type: "application/json" });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement("a");
-        link.href = url;
-        link.download = "spicetify-history-download";
-        link.click();
-        link.remove();
-        URL.revokeObjectURL(url);
-        Spicetify.showNotification("History exported");
-    } catch (error) {
-        console.error("Error exporting history:", error);
-        Spicetify.showNotification("Failed to export history");
-    }
-}
+const matchesTrackUri = (track: AggregateTrack, uri: string): boolean =>
+    track.uri === uri || track.album?.uri === uri || (track.artists?.some((artist) => artist.uri === uri) ?? false);
 
 /**
- * 
+ * Moves every play of a track, or of the tracks of an album or artist, to the trash, rolled up plays included, and deletes their track records.
+ *
  * @param db - The open IndexedDB database instance.
- * @param file - The file containing user's history.
- * @returns A promise that resolves when the user's history is imported.
- */
-export const importHistoryAsFile = async (db: IDBDatabase, file: File | null): Promise<void> => {
-    Spicetify.showNotification("Importing history...");
-    try {
-      if (db && file) {
-        const jsonData = await file.text();
-        const history = JSON.parse(jsonData);
-        const transaction = db.transaction(["history"], "readwrite");
-        const objectStore = transaction.objectStore("history");
-
-        for (const song of history) {
-          if (!isValidSong(song)) {
-            throw new Error("Invalid song data in imported file");
-          }
-          objectStore.add(song);
-        }
+ * @param uri - The URI of the track, album or artist.
+ * @returns A promise that resolves to the deletion.
+ */
+export const deletePlaysByUriFromDB = (db: IDBDatabase, uri: string): Promise<Deletion> => {
+  return new Promise<Deletion>((resolve: (deletion: Deletion) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "aggregates", "trash", "changes"], "readwrite");
+    const playIndex = transaction.objectStore("plays").index("uri");
+    const deletion: Deletion = { batchId: createBatchId(), count: 0 };
 
-        transaction.oncomplete = () => {
-          Spicetify.showNotification("History imported");
-        };
-        transaction.onerror = (event: Event) => {
-          console.error("Error importing history:", (event.target as IDBRequest).error);
-          Spicetify.showNotification("Failed to import history");
+    // Rolled up plays keep their track fields, as their track record may be gone.
+    const aggregatesRequest = transaction.objectStore("aggregates").getAll();
+    aggregatesRequest.onsuccess = () => {
+      const aggregates = (aggregatesRequest.result as DailyAggregate[]).filter((aggregate) => matchesTrackUri(aggregate.track, uri));
+      deletion.count += trashAggregates(transaction, aggregates, deletion.batchId);
+    };
+
+    const tracksRequest = transaction.objectStore("tracks").getAll();
+    tracksRequest.onsuccess = () => {
+      for (const track of tracksRequest.result as Track[]) {
+        if (!matchesTrackUri(track, uri)) continue;
+        const playsRequest = playIndex.getAll(track.uri);
+        playsRequest.onsuccess = () => {
+          const plays = playsRequest.result as Play[];
+          trashPlays(transaction, plays, deletion.batchId);
+          deletion.count += plays.length;
         };
       }
-    } catch (error) {
-        Spicetify.showNotification("Failed to import history")
-        console.error("Error importing history:", error);
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error deleting plays:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      announceDeletion(deletion, true);
+      resolve(deletion);
+    };
+  });
+};
+
+/**
+ * Moves a set of plays to the trash in a single transaction, deleting the track records left without plays.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param playIds - The ids of the plays to delete.
+ * @returns A promise that resolves to the deletion.
+ */
+export const deletePlaysFromDB = (db: IDBDatabase, playIds: string[]): Promise<Deletion> => {
+  return new Promise<Deletion>((resolve: (deletion: Deletion) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "trash", "changes"], "readwrite");
+    const playStore = transaction.objectStore("plays");
+    const deletion: Deletion = { batchId: createBatchId(), count: 0 };
+    const plays: Play[] = [];
+    let pending = playIds.length;
+
+    for (const playId of playIds) {
+      const request = playStore.get(playId);
+      request.onsuccess = () => {
+        if (request.result) plays.push(request.result as Play);
+        if (--pending === 0) {
+          trashPlays(transaction, plays, deletion.batchId);
+          deletion.count = plays.length;
+        }
+      };
     }
-}
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error deleting plays:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      announceDeletion(deletion, true);
+      resolve(deletion);
+    };
+  });
+};
+
+/**
+ * Moves every play in a date range to the trash in a single transaction, deleting the track records left without plays.
+ * Rolled up plays are deleted with the days that lie entirely within the range.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param from - The earliest listen date deleted, or undefined for no lower bound.
+ * @param to - The latest listen date deleted, or undefined for no upper bound.
+ * @returns A promise that resolves to the deletion.
+ */
+export const deletePlaysInRangeFromDB = (db: IDBDatabase, from?: number, to?: number): Promise<Deletion> => {
+  return new Promise<Deletion>((resolve: (deletion: Deletion) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "aggregates", "trash", "changes"], "readwrite");
+    const request = transaction.objectStore("plays").index("listenDate").getAll(listenDateRange(from, to));
+    const aggregatesRequest = transaction.objectStore("aggregates").index("dayStart").getAll(listenDateRange(from, to));
+    const deletion: Deletion = { batchId: createBatchId(), count: 0 };
+
+    request.onsuccess = () => {
+      const plays = request.result as Play[];
+      trashPlays(transaction, plays, deletion.batchId);
+      deletion.count += plays.length;
+    };
+
+    aggregatesRequest.onsuccess = () => {
+      const aggregates = (aggregatesRequest.result as DailyAggregate[]).filter((aggregate) => {
+        const dayEnd = new Date(aggregate.dayStart);
+        dayEnd.setDate(dayEnd.getDate() + 1);
+        return to === undefined || dayEnd.getTime() - 1 <= to;
+      });
+      deletion.count += trashAggregates(transaction, aggregates, deletion.batchId);
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error deleting plays:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      announceDeletion(deletion, true);
+      resolve(deletion);
+    };
+  });
+};
 
 /**
- * Validates whether an object conforms to the Song interface.
- * @param song - The object to validate.
- * @returns True if the object is a valid Song, false otherwise.
- */
-const isValidSong = (song: any): song is Song => {
-  return (
-    typeof song.uid === "string" &&
-    typeof song.uri === "string" &&
-    typeof song.name === "string" &&
-    typeof song.duration?.milliseconds === "number" &&
-    typeof song.album?.name === "string" &&
-    typeof song.album?.uri === "string" &&
-    Array.isArray(song.artists) &&
-    song.artists.every(
-      (artist: any) =>
-        typeof artist.name === "string" && typeof artist.uri === "string"
-    ) &&
-    typeof song.listenDate === "number" &&
-    Array.isArray(song.images) &&
-    song.images.every(
-      (image: any) =>
-        typeof image.label === "string" && typeof image.url === "string"
-    ) &&
-    typeof song.metadata === "object" &&
-    song.metadata !== null
-  );
-};
\ No newline at end of file
+ * Reads the plays in the trash.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A promise that resolves to the trash entries, most recently deleted first.
+ */
+export const getTrashFromDB = (db: IDBDatabase): Promise<TrashEntry[]> => {
+  return new Promise<TrashEntry[]>((resolve: (entries: TrashEntry[]) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["trash"], "readonly");
+    const request = transaction.objectStore("trash").index("deletedAt").getAll();
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error reading trash:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve((request.result as TrashEntry[]).reverse());
+  });
+};
+
+/**
+ * Puts trash entries back into the history, within a readwrite transaction on the "tracks", "plays", "aggregates", "trash" and "changes" object stores.
+ * A track record already in the history is kept, as it may have been updated since.
+ * Daily totals are added to the totals of the same day and track rolled up since they were deleted.
+ *
+ * @param transaction - The transaction to restore the entries in.
+ * @param entries - The entries to restore.
+ */
+const restoreEntries = (transaction: IDBTransaction, entries: TrashEntry[]): void => {
+    const trackStore = transaction.objectStore("tracks");
+    const playStore = transaction.objectStore("plays");
+    const aggregateStore = transaction.objectStore("aggregates");
+    const trashStore = transaction.objectStore("trash");
+    for (const entry of entries) {
+        trashStore.delete(entry.id);
+        const aggregate = entry.aggregate;
+        if (aggregate) {
+            const existingRequest = aggregateStore.get(aggregate.id);
+            existingRequest.onsuccess = () => {
+                const existing = existingRequest.result as DailyAggregate | undefined;
+                aggregateStore.put(existing ? {
+                    ...aggregate,
+                    plays: existing.plays + aggregate.plays,
+                    skips: existing.skips + aggregate.skips,
+                    playedMs: existing.playedMs + aggregate.playedMs,
+                } : aggregate);
+            };
+            continue;
+        }
+        if (!entry.song) continue;
+        const { track, play } = splitSong(entry.song);
+        const trackRequest = trackStore.get(track.uri);
+        trackRequest.onsuccess = () => {
+            if (!trackRequest.result) trackStore.put(track);
+        };
+        playStore.put(play);
+    }
+    recordChanges(transaction, entries.filter((entry) => entry.song).map((entry) => entry.id), false);
+};
+
+/**
+ * Restores plays from the trash.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param ids - The ids of the plays to restore.
+ * @returns A promise that resolves to the number of restored plays.
+ */
+export const restoreFromTrashInDB = (db: IDBDatabase, ids: string[]): Promise<number> => {
+  return new Promise<number>((resolve: (count: number) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "aggregates", "trash", "changes"], "readwrite");
+    const trashStore = transaction.objectStore("trash");
+    let count = 0;
+
+    for (const id of ids) {
+      const request = trashStore.get(id);
+      request.onsuccess = () => {
+        if (!request.result) return;
+        restoreEntries(transaction, [request.result as TrashEntry]);
+        count++;
+      };
+    }
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error restoring plays:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      if (count > 0) window.dispatchEvent(new CustomEvent(HISTORY_UPDATED_EVENT));
+      resolve(count);
+    };
+  });
+};
+
+/**
+ * Undoes a deletion by restoring every play it moved to the trash.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param batchId - The id of the deletion.
+ * @returns A promise that resolves to the number of restored plays.
+ */
+export const restoreDeletionFromDB = (db: IDBDatabase, batchId: string): Promise<number> => {
+  return new Promise<number>((resolve: (count: number) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "aggregates", "trash", "changes"], "readwrite");
+    const request = transaction.objectStore("trash").index("batchId").getAll(batchId);
+    let count = 0;
+
+    request.onsuccess = () => {
+      restoreEntries(transaction, request.result as TrashEntry[]);
+      count = request.result.length;
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error restoring plays:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      if (count > 0) window.dispatchEvent(new CustomEvent(HISTORY_UPDATED_EVENT));
+      resolve(count);
+    };
+  });
+};
+
+/**
+ * Permanently deletes plays from the trash.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param ids - The ids of the plays to delete, or undefined to empty the trash.
+ * @returns A promise that resolves when the plays are deleted.
+ */
+export const deleteFromTrashInDB = (db: IDBDatabase, ids?: string[]): Promise<void> => {
+  return new Promise<void>((resolve: () => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["trash"], "readwrite");
+    const trashStore = transaction.objectStore("trash");
+    if (ids) {
+      for (const id of ids) trashStore.delete(id);
+    } else {
+      trashStore.clear();
+    }
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error deleting from trash:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve();
+  });
+};
+
+/**
+ * Permanently deletes the plays that were moved to the trash before a given time.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param before - The time before which deleted plays are purged.
+ * @returns A promise that resolves to the number of purged plays.
+ */
+export const purgeTrashInDB = (db: IDBDatabase, before: number): Promise<number> => {
+  return new Promise<number>((resolve: (count: number) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["trash"], "readwrite");
+    const request = transaction.objectStore("trash").index("deletedAt").openCursor(IDBKeyRange.upperBound(before, true));
+    let count = 0;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      cursor.delete();
+      count++;
+      cursor.continue();
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error purging trash:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve(count);
+  });
+};
+
+/**
+ * The track fields kept with rolled up plays, so they can be counted after the track record is gone.
+ */
+export type AggregateTrack = Pick<Track, "uri" | "name" | "mediaType" | "duration" | "album" | "artists" | "images">;
+
+/**
+ * The plays of a track on a single day, rolled up once they are older than the retention.
+ */
+export interface DailyAggregate {
+    /** The day and the track URI, as "YYYY-MM-DD|uri". */
+    id: string;
+    uri: string;
+    /** The local day, as "YYYY-MM-DD". */
+    day: string;
+    /** The local start of the day, so aggregates can be read by date range. */
+    dayStart: number;
+    track: AggregateTrack;
+    /** Plays that reached the play threshold. */
+    plays: number;
+    /** Plays that did not reach the play threshold. */
+    skips: number;
+    playedMs: number;
+}
+
+/**
+ * Rolls up the plays listened to before a given time into per-track daily aggregates, in a single transaction.
+ * The rolled up plays are deleted, along with the track records left without plays.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param before - The time before which plays are rolled up.
+ * @returns A promise that resolves to the number of rolled up plays.
+ */
+export const rollUpPlaysInDB = (db: IDBDatabase, before: number): Promise<number> => {
+  return new Promise<number>((resolve: (count: number) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "aggregates"], "readwrite");
+    const trackStore = transaction.objectStore("tracks");
+    const playStore = transaction.objectStore("plays");
+    const aggregateStore = transaction.objectStore("aggregates");
+    const aggregates = new Map<string, DailyAggregate>();
+    let count = 0;
+
+    const tracksRequest = trackStore.getAll();
+    tracksRequest.onsuccess = () => {
+      const tracks = new Map<string, Track>();
+      for (const track of tracksRequest.result as Track[]) {
+        tracks.set(track.uri, track);
+      }
+
+      const cursorRequest = playStore.index("listenDate").openCursor(IDBKeyRange.upperBound(before, true));
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          const play = cursor.value as Play;
+          const track = tracks.get(play.uri);
+          if (track) {
+            const day = toDateKey(play.listenDate);
+            const id = `${day}|${play.uri}`;
+            const aggregate = aggregates.get(id) ?? {
+              id,
+              uri: play.uri,
+              day,
+              dayStart: new Date(play.listenDate).setHours(0, 0, 0, 0),
+              track: {
+                uri: track.uri,
+                name: track.name,
+                mediaType: track.mediaType,
+                duration: track.duration,
+                album: track.album,
+                artists: track.artists,
+                images: track.images.slice(0, 1),
+              },
+              plays: 0,
+              skips: 0,
+              playedMs: 0,
+            };
+            if (play.skipped) aggregate.skips++;
+            else aggregate.plays++;
+            aggregate.playedMs += play.playedMs;
+            aggregates.set(id, aggregate);
+          }
+          cursor.delete();
+          count++;
+          cursor.continue();
+          return;
+        }
+
+        // Merge with the aggregates of earlier roll-ups, then drop the track records no play points to anymore.
+        for (const aggregate of aggregates.values()) {
+          const existingRequest = aggregateStore.get(aggregate.id);
+          existingRequest.onsuccess = () => {
+            const existing = existingRequest.result as DailyAggregate | undefined;
+            aggregateStore.put(existing ? {
+              ...aggregate,
+              plays: existing.plays + aggregate.plays,
+              skips: existing.skips + aggregate.skips,
+              playedMs: existing.playedMs + aggregate.playedMs,
+            } : aggregate);
+          };
+        }
+        for (const uri of new Set([...aggregates.values()].map((aggregate) => aggregate.uri))) {
+          const countRequest = playStore.index("uri").count(uri);
+          countRequest.onsuccess = () => {
+            if (countRequest.result === 0) trackStore.delete(uri);
+          };
+        }
+      };
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error rolling up plays:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      if (count > 0) window.dispatchEvent(new CustomEvent(HISTORY_UPDATED_EVENT));
+      resolve(count);
+    };
+  });
+};
+
+/**
+ * Compacts every track record. Tracks are compacted when they are saved, so this only shrinks the records saved by older versions.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A promise that resolves to the number of track records made smaller.
+ */
+export const compactTracksInDB = (db: IDBDatabase): Promise<number> => {
+  return new Promise<number>((resolve: (count: number) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks"], "readwrite");
+    const request = transaction.objectStore("tracks").openCursor();
+    let count = 0;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const track = cursor.value as Track;
+      const compacted = compactTrack(track);
+      if (JSON.stringify(compacted).length < JSON.stringify(track).length) {
+        cursor.update(compacted);
+        count++;
+      }
+      cursor.continue();
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error compacting tracks:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve(count);
+  });
+};
+
+/**
+ * The number of records in each object store.
+ */
+export interface StoreCounts {
+    plays: number;
+    tracks: number;
+    aggregates: number;
+    scrobbles: number;
+    trash: number;
+    restorePoints: number;
+}
+
+/**
+ * Counts the records of every object store.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A promise that resolves to the record counts.
+ */
+export const getStoreCountsFromDB = (db: IDBDatabase): Promise<StoreCounts> => {
+  return new Promise<StoreCounts>((resolve: (counts: StoreCounts) => void, reject: (reason: string) => void) => {
+    const storeNames: (keyof StoreCounts)[] = ["plays", "tracks", "aggregates", "scrobbles", "trash", "restorePoints"];
+    const transaction = db.transaction(storeNames, "readonly");
+    const counts: StoreCounts = { plays: 0, tracks: 0, aggregates: 0, scrobbles: 0, trash: 0, restorePoints: 0 };
+    for (const storeName of storeNames) {
+      const request = transaction.objectStore(storeName).count();
+      request.onsuccess = () => {
+        counts[storeName] = request.result;
+      };
+    }
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error counting records:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve(counts);
+  });
+};
+
+/**
+ * An artist of the recorded tracks.
+ */
+export interface ArtistSummary {
+    uri: string;
+    name: string;
+}
+
+/**
+ * Reads the artists of every recorded track.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A promise that resolves to the artists, sorted by name.
+ */
+export const getArtistsFromDB = (db: IDBDatabase): Promise<ArtistSummary[]> => {
+  return new Promise<ArtistSummary[]>((resolve: (artists: ArtistSummary[]) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks"], "readonly");
+    const request = transaction.objectStore("tracks").getAll();
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error reading artists:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      const artists = new Map<string, ArtistSummary>();
+      for (const track of request.result as Track[]) {
+        for (const artist of track.artists ?? []) {
+          if (artist.uri) artists.set(artist.uri, { uri: artist.uri, name: artist.name });
+        }
+      }
+      resolve([...artists.values()].sort((a, b) => a.name.localeCompare(b.name)));
+    };
+  });
+};
+
+/**
+ * How often a track, album or artist was played, and when last.
+ */
+export interface PlaySummary {
+    /** Plays that reached the play threshold. */
+    plays: number;
+    /** The listen date of the most recent play, skipped or not. */
+    lastPlayed?: number;
+}
+
+/**
+ * Summarizes the plays of a track, or of the tracks of an album or artist, rolled up plays included.
+ * For rolled up plays, the last listen date is the start of their day.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param uri - The URI of the track, album or artist.
+ * @returns A promise that resolves to the play count and the last listen date.
+ */
+export const getPlaySummaryFromDB = (db: IDBDatabase, uri: string): Promise<PlaySummary> => {
+  return new Promise<PlaySummary>((resolve: (summary: PlaySummary) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "aggregates"], "readonly");
+    const playIndex = transaction.objectStore("plays").index("uri");
+    const summary: PlaySummary = { plays: 0 };
+
+    const aggregatesRequest = transaction.objectStore("aggregates").getAll();
+    aggregatesRequest.onsuccess = () => {
+      for (const aggregate of aggregatesRequest.result as DailyAggregate[]) {
+        if (!matchesTrackUri(aggregate.track, uri)) continue;
+        summary.plays += aggregate.plays;
+        if (summary.lastPlayed === undefined || aggregate.dayStart > summary.lastPlayed) summary.lastPlayed = aggregate.dayStart;
+      }
+    };
+
+    const tracksRequest = transaction.objectStore("tracks").getAll();
+    tracksRequest.onsuccess = () => {
+      for (const track of tracksRequest.result as Track[]) {
+        if (!matchesTrackUri(track, uri)) continue;
+        const playsRequest = playIndex.getAll(track.uri);
+        playsRequest.onsuccess = () => {
+          for (const play of playsRequest.result as Play[]) {
+            if (!play.skipped) summary.plays++;
+            if (summary.lastPlayed === undefined || play.listenDate > summary.lastPlayed) summary.lastPlayed = play.listenDate;
+          }
+        };
+      }
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error summarizing plays:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve(summary);
+  });
+};
+
+/**
+ * A track, artist, album or source ranked by how often it was played.
+ */
+export interface RankedItem {
+    uri: string;
+    name: string;
+    /** Artists of a track or album, empty for an artist, and the context type of a source. */
+    subtitle: string;
+    image?: string;
+    plays: number;
+    listenedMs: number;
+}
+
+/**
+ * Listening statistics over a date range.
+ */
+export interface ListeningStats {
+    /** Plays that reached the play threshold. */
+    plays: number;
+    /** Plays that did not reach the play threshold. */
+    skips: number;
+    /** Total time listened, skips included. */
+    listenedMs: number;
+    uniqueTracks: number;
+    uniqueArtists: number;
+    uniqueAlbums: number;
+    topTracks: RankedItem[];
+    topArtists: RankedItem[];
+    topAlbums: RankedItem[];
+    /** The playlists, albums and other sources played from most. */
+    topSources: RankedItem[];
+}
+
+/**
+ * Builds a key range on the "listenDate" index.
+ *
+ * @param from - The earliest listen date included, or undefined for no lower bound.
+ * @param to - The latest listen date included, or undefined for no upper bound.
+ * @returns The key range, or undefined when the range is unbounded.
+ */
+const listenDateRange = (from?: number, to?: number): IDBKeyRange | undefined => {
+    if (from !== undefined && to !== undefined) return IDBKeyRange.bound(from, to);
+    if (from !== undefined) return IDBKeyRange.lowerBound(from);
+    if (to !== undefined) return IDBKeyRange.upperBound(to);
+    return undefined;
+};
+
+/**
+ * Aggregates listening statistics over the plays in a date range, rolled up plays included.
+ * Skipped plays add to the listening time but not to play counts or rankings.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param from - The earliest listen date included, or undefined for no lower bound.
+ * @param to - The latest listen date included, or undefined for no upper bound.
+ * @param limit - The number of items in each ranking.
+ * @returns A promise that resolves to the statistics of the range.
+ */
+export const getStatsFromDB = (db: IDBDatabase, from?: number, to?: number, limit: number = 10): Promise<ListeningStats> => {
+  return new Promise<ListeningStats>((resolve: (stats: ListeningStats) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "aggregates"], "readonly");
+    const tracksRequest = transaction.objectStore("tracks").getAll();
+    const playsRequest = transaction.objectStore("plays").index("listenDate").getAll(listenDateRange(from, to));
+    const aggregatesRequest = transaction.objectStore("aggregates").index("dayStart").getAll(listenDateRange(from, to));
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error computing statistics:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      const tracks = new Map<string, Track>();
+      for (const track of tracksRequest.result as Track[]) {
+        tracks.set(track.uri, track);
+      }
+
+      const trackItems = new Map<string, RankedItem>();
+      const artistItems = new Map<string, RankedItem>();
+      const albumItems = new Map<string, RankedItem>();
+      const sourceItems = new Map<string, RankedItem>();
+      const count = (items: Map<string, RankedItem>, item: Omit<RankedItem, "plays" | "listenedMs">, plays: number, listenedMs: number) => {
+        const ranked = items.get(item.uri) ?? { ...item, plays: 0, listenedMs: 0 };
+        ranked.plays += plays;
+        ranked.listenedMs += listenedMs;
+        items.set(item.uri, ranked);
+      };
+      const countTrack = (track: AggregateTrack, plays: number, listenedMs: number) => {
+        const artistNames = track.artists.map((artist) => artist.name).join(", ");
+        const image = track.images[0]?.url;
+        count(trackItems, { uri: track.uri, name: track.name, subtitle: artistNames, image }, plays, listenedMs);
+        if (track.album?.uri) {
+          count(albumItems, { uri: track.album.uri, name: track.album.name, subtitle: artistNames, image }, plays, listenedMs);
+        }
+        for (const artist of track.artists) {
+          count(artistItems, { uri: artist.uri, name: artist.name, subtitle: "" }, plays, listenedMs);
+        }
+      };
+
+      let plays = 0;
+      let skips = 0;
+      let listenedMs = 0;
+      for (const play of playsRequest.result as Play[]) {
+        const track = tracks.get(play.uri);
+        if (!track) continue;
+        listenedMs += play.playedMs;
+        if (play.skipped) {
+          skips++;
+          continue;
+        }
+        plays++;
+        countTrack(track, 1, play.playedMs);
+        if (play.context?.uri) {
+          count(sourceItems, { uri: play.context.uri, name: play.context.name ?? play.context.uri, subtitle: play.context.type }, 1, play.playedMs);
+        }
+      }
+
+      // Rolled up plays count like plays, without their sources.
+      for (const aggregate of aggregatesRequest.result as DailyAggregate[]) {
+        listenedMs += aggregate.playedMs;
+        skips += aggregate.skips;
+        plays += aggregate.plays;
+        if (aggregate.plays > 0) countTrack(aggregate.track, aggregate.plays, aggregate.playedMs);
+      }
+
+      const rank = (items: Map<string, RankedItem>) =>
+        [...items.values()].sort((a, b) => b.plays - a.plays || b.listenedMs - a.listenedMs).slice(0, limit);
+
+      resolve({
+        plays,
+        skips,
+        listenedMs,
+        uniqueTracks: trackItems.size,
+        uniqueArtists: artistItems.size,
+        uniqueAlbums: albumItems.size,
+        topTracks: rank(trackItems),
+        topArtists: rank(artistItems),
+        topAlbums: rank(albumItems),
+        topSources: rank(sourceItems),
+      });
+    };
+  });
+};
+
+/**
+ * A track played often in the past, with the time it was last played.
+ */
+export interface ForgottenFavorite extends RankedItem {
+    lastPlayed: number;
+}
+
+/**
+ * Finds the tracks played often that have not been played since a given time, rolled up plays included.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param before - The time since which the tracks have not been played.
+ * @param minPlays - The number of plays a track needs to count as a favorite.
+ * @param limit - The maximum number of tracks.
+ * @returns A promise that resolves to the tracks, most played first.
+ */
+export const getForgottenFavoritesFromDB = (db: IDBDatabase, before: number, minPlays: number, limit: number): Promise<ForgottenFavorite[]> => {
+  return new Promise<ForgottenFavorite[]>((resolve: (favorites: ForgottenFavorite[]) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "aggregates"], "readonly");
+    const tracksRequest = transaction.objectStore("tracks").getAll();
+    const playsRequest = transaction.objectStore("plays").getAll();
+    const aggregatesRequest = transaction.objectStore("aggregates").getAll();
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error finding forgotten favorites:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      const tracks = new Map<string, AggregateTrack>();
+      for (const track of tracksRequest.result as Track[]) {
+        tracks.set(track.uri, track);
+      }
+      const favorites = new Map<string, { plays: number; listenedMs: number; lastPlayed: number }>();
+      const count = (uri: string, plays: number, listenedMs: number, listenDate: number) => {
+        const favorite = favorites.get(uri) ?? { plays: 0, listenedMs: 0, lastPlayed: 0 };
+        favorite.plays += plays;
+        favorite.listenedMs += listenedMs;
+        favorite.lastPlayed = Math.max(favorite.lastPlayed, listenDate);
+        favorites.set(uri, favorite);
+      };
+      for (const play of playsRequest.result as Play[]) {
+        count(play.uri, play.skipped ? 0 : 1, play.playedMs, play.listenDate);
+      }
+      for (const aggregate of aggregatesRequest.result as DailyAggregate[]) {
+        if (!tracks.has(aggregate.uri)) tracks.set(aggregate.uri, aggregate.track);
+        count(aggregate.uri, aggregate.plays, aggregate.playedMs, aggregate.dayStart);
+      }
+
+      resolve([...favorites.entries()]
+        .filter(([uri, favorite]) => tracks.has(uri) && favorite.plays >= minPlays && favorite.lastPlayed < before)
+        .sort(([, a], [, b]) => b.plays - a.plays || b.lastPlayed - a.lastPlayed)
+        .slice(0, limit)
+        .map(([uri, favorite]) => {
+          const track = tracks.get(uri) as AggregateTrack;
+          return {
+            uri,
+            name: track.name,
+            subtitle: track.artists.map((artist) => artist.name).join(", "),
+            image: track.images[0]?.url,
+            ...favorite,
+          };
+        }));
+    };
+  });
+};
+
+/**
+ * Counts the plays of every track, rolled up plays included and skips excluded.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A promise that resolves to the play counts, keyed by track URI.
+ */
+export const getPlayCountsFromDB = (db: IDBDatabase): Promise<Map<string, number>> => {
+  return new Promise<Map<string, number>>((resolve: (counts: Map<string, number>) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["plays", "aggregates"], "readonly");
+    const request = transaction.objectStore("plays").openCursor();
+    const aggregatesRequest = transaction.objectStore("aggregates").getAll();
+    const counts = new Map<string, number>();
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error counting plays:", errorMessage);
+      reject(errorMessage);
+    };
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const play = cursor.value as Play;
+      if (!play.skipped) counts.set(play.uri, (counts.get(play.uri) ?? 0) + 1);
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => {
+      for (const aggregate of aggregatesRequest.result as DailyAggregate[]) {
+        if (aggregate.plays > 0) counts.set(aggregate.uri, (counts.get(aggregate.uri) ?? 0) + aggregate.plays);
+      }
+      resolve(counts);
+    };
+  });
+};
+
+/**
+ * Counts the plays of a single track, rolled up plays included, without reading the whole history.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param uri - The URI of the track.
+ * @returns A promise that resolves to the number of plays that reached the play threshold.
+ */
+export const getPlayCountFromDB = (db: IDBDatabase, uri: string): Promise<number> => {
+  return new Promise<number>((resolve: (count: number) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["plays", "aggregates"], "readonly");
+    const playsRequest = transaction.objectStore("plays").index("uri").getAll(uri);
+    const aggregatesRequest = transaction.objectStore("aggregates").index("uri").getAll(uri);
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error counting plays:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      const plays = (playsRequest.result as Play[]).filter((play) => !play.skipped).length;
+      resolve((aggregatesRequest.result as DailyAggregate[]).reduce((total, aggregate) => total + aggregate.plays, plays));
+    };
+  });
+};
+
+/**
+ * Listening time spread over days and over the hours of the week.
+ */
+export interface ListeningActivity {
+    /** Time listened per local day, keyed by "YYYY-MM-DD". */
+    daily: Record<string, number>;
+    /** Time listened per day of the week (0 is Sunday) and hour of the day. */
+    hourly: number[][];
+}
+
+/**
+ * Formats a timestamp as the local date key used by `ListeningActivity.daily`.
+ *
+ * @param time - The timestamp, in milliseconds since the epoch.
+ * @returns The local date, as "YYYY-MM-DD".
+ */
+export const toDateKey = (time: number): string => {
+    const date = new Date(time);
+    const month = `${date.getMonth() + 1}`.padStart(2, "0");
+    const day = `${date.getDate()}`.padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Sums the listening time of the plays in a date range per day and per hour of the week.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param from - The earliest listen date included, or undefined for no lower bound.
+ * @param to - The latest listen date included, or undefined for no upper bound.
+ * @returns A promise that resolves to the listening activity of the range.
+ */
+export const getActivityFromDB = (db: IDBDatabase, from?: number, to?: number): Promise<ListeningActivity> => {
+  return new Promise<ListeningActivity>((resolve: (activity: ListeningActivity) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["plays", "aggregates"], "readonly");
+    const request = transaction.objectStore("plays").index("listenDate").openCursor(listenDateRange(from, to));
+    const aggregatesRequest = transaction.objectStore("aggregates").index("dayStart").getAll(listenDateRange(from, to));
+    const activity: ListeningActivity = {
+      daily: {},
+      hourly: Array.from({ length: 7 }, () => new Array<number>(24).fill(0)),
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error computing listening activity:", errorMessage);
+      reject(errorMessage);
+    };
+
+    // Rolled up plays have no time of day, so they only add to the daily totals.
+    transaction.oncomplete = () => {
+      for (const aggregate of aggregatesRequest.result as DailyAggregate[]) {
+        activity.daily[aggregate.day] = (activity.daily[aggregate.day] ?? 0) + aggregate.playedMs;
+      }
+      resolve(activity);
+    };
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const play = cursor.value as Play;
+      const date = new Date(play.listenDate);
+      const key = toDateKey(play.listenDate);
+      activity.daily[key] = (activity.daily[key] ?? 0) + play.playedMs;
+      activity.hourly[date.getDay()][date.getHours()] += play.playedMs;
+      cursor.continue();
+    };
+  });
+};
+
+/**
+ * Reads the stored track record and the plays of each of the given tracks.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param uris - The URIs of the tracks.
+ * @returns A promise that resolves to the track record, if any, and the plays of each track, keyed by URI.
+ */
+export const getTrackHistoryFromDB = (db: IDBDatabase, uris: string[]): Promise<Map<string, { track?: Track; plays: Play[] }>> => {
+  return new Promise((resolve: (history: Map<string, { track?: Track; plays: Play[] }>) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays"], "readonly");
+    const trackStore = transaction.objectStore("tracks");
+    const playIndex = transaction.objectStore("plays").index("uri");
+    const history = new Map<string, { track?: Track; plays: Play[] }>();
+
+    for (const uri of new Set(uris)) {
+      const entry: { track?: Track; plays: Play[] } = { plays: [] };
+      history.set(uri, entry);
+      const trackRequest = trackStore.get(uri);
+      trackRequest.onsuccess = () => entry.track = trackRequest.result;
+      const playsRequest = playIndex.getAll(uri);
+      playsRequest.onsuccess = () => entry.plays = playsRequest.result;
+    }
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error retrieving track history:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve(history);
+  });
+};
+
+/**
+ * Reads the daily totals of the rolled up plays of a track.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param uri - The URI of the track.
+ * @returns A promise that resolves to the daily totals, oldest first.
+ */
+export const getAggregatesByUriFromDB = (db: IDBDatabase, uri: string): Promise<DailyAggregate[]> => {
+  return new Promise<DailyAggregate[]>((resolve: (aggregates: DailyAggregate[]) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["aggregates"], "readonly");
+    const request = transaction.objectStore("aggregates").index("uri").getAll(uri);
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error reading daily totals:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve((request.result as DailyAggregate[]).sort((a, b) => a.dayStart - b.dayStart));
+  });
+};
+
+/**
+ * Finds stored track records by title.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param names - The titles to look for.
+ * @returns A promise that resolves to the tracks with each title, keyed by title.
+ */
+export const findTracksByNameFromDB = (db: IDBDatabase, names: string[]): Promise<Map<string, Track[]>> => {
+  return new Promise((resolve: (tracks: Map<string, Track[]>) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks"], "readonly");
+    const index = transaction.objectStore("tracks").index("name");
+    const tracks = new Map<string, Track[]>();
+
+    for (const name of new Set(names)) {
+      const request = index.getAll(name);
+      request.onsuccess = () => tracks.set(name, request.result);
+    }
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error finding tracks:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve(tracks);
+  });
+};
+
+/**
+ * How an import treats a play that is already in the history, and the track record it points to.
+ * - "skip" keeps the stored play and track.
+ * - "overwrite" replaces them with the imported ones.
+ * - "newest" keeps the play with the most listened time, and the track data from the most recent listen.
+ * - "merge" combines both plays, keeping the longest listened time and counting the play if either counted it.
+ */
+export type ImportPolicy = "skip" | "overwrite" | "newest" | "merge";
+
+/**
+ * The outcome of importing plays, or of a dry run.
+ */
+export interface ImportCounts {
+    /** Plays not in the history yet. */
+    added: number;
+    /** Plays already in the history, or repeated in the imported data. */
+    duplicates: number;
+    /** Duplicates that changed the stored play under the import policy. */
+    updated: number;
+}
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ *
+ * @param request - The request to wait for.
+ * @returns A promise that resolves to the result of the request.
+ */
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Imports plays into the history in a single transaction, resolving conflicts with the given policy.
+ * With `dryRun` set, nothing is written and the counts describe what the import would do.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param songs - The validated songs to import.
+ * @param policy - How to treat plays already in the history.
+ * @param dryRun - Whether to only count what the import would do.
+ * @returns A promise that resolves to the counts once the transaction has completed.
+ */
+export const importSongsToDB = (db: IDBDatabase, songs: Song[], policy: ImportPolicy, dryRun: boolean = false): Promise<ImportCounts> => {
+  return new Promise<ImportCounts>((resolve: (counts: ImportCounts) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "changes"], dryRun ? "readonly" : "readwrite");
+    const trackStore = transaction.objectStore("tracks");
+    const playStore = transaction.objectStore("plays");
+    const records = songs.map(splitSong);
+    const counts: ImportCounts = { added: 0, duplicates: 0, updated: 0 };
+
+    const plays = new Map<string, Play>();
+    const latestListens = new Map<string, number>();
+    const storedTracks = new Set<string>();
+
+    // Read the stored plays and tracks the imported ones may conflict with.
+    const readPlays = [...new Set(records.map(({ play }) => play.id))].map(async (id) => {
+      const play = await requestResult<Play | undefined>(playStore.get(id));
+      if (play) plays.set(id, play);
+    });
+    const readTracks = [...new Set(records.map(({ track }) => track.uri))].map(async (uri) => {
+      if (await requestResult(trackStore.count(uri))) storedTracks.add(uri);
+      // Play ids start with the listen date, so the last play of a track by key is its latest listen.
+      const cursor = await requestResult(playStore.index("uri").openCursor(IDBKeyRange.only(uri), "prev"));
+      if (cursor) latestListens.set(uri, (cursor.value as Play).listenDate);
+    });
+
+    Promise.all([...readPlays, ...readTracks]).then(() => {
+      for (const { track, play } of records) {
+        const stored = plays.get(play.id);
+        let playToStore: Play | undefined = play;
+        if (stored) {
+          counts.duplicates++;
+          if (policy === "skip") {
+            playToStore = undefined;
+          } else if (policy === "newest") {
+            playToStore = play.playedMs > stored.playedMs ? play : undefined;
+          } else if (policy === "merge") {
+            const merged = { ...stored, playedMs: Math.max(stored.playedMs, play.playedMs), skipped: stored.skipped && play.skipped };
+            playToStore = merged.playedMs !== stored.playedMs || merged.skipped !== stored.skipped ? merged : undefined;
+          }
+          if (playToStore) counts.updated++;
+        } else {
+          counts.added++;
+        }
+
+        const latestListen = latestListens.get(track.uri);
+        const storeTrack = !storedTracks.has(track.uri)
+          || policy === "overwrite"
+          || (policy === "newest" && (latestListen === undefined || play.listenDate >= latestListen));
+
+        if (playToStore) {
+          plays.set(play.id, playToStore);
+          if (!dryRun) {
+            playStore.put(playToStore);
+            recordChanges(transaction, [playToStore.id], false);
+          }
+        }
+        if (storeTrack) {
+          storedTracks.add(track.uri);
+          if (!dryRun) trackStore.put(track);
+        }
+        if (latestListen === undefined || play.listenDate > latestListen) {
+          latestListens.set(track.uri, play.listenDate);
+        }
+      }
+    }).catch((error) => {
+      console.error("Error importing history:", error);
+      transaction.abort();
+    });
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error importing history:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.onabort = () => {
+      reject(transaction.error?.message || "Import aborted");
+    };
+
+    transaction.oncomplete = () => {
+      if (!dryRun && counts.added + counts.updated > 0) {
+        window.dispatchEvent(new CustomEvent(HISTORY_UPDATED_EVENT));
+      }
+      resolve(counts);
+    };
+  });
+};
+
+/**
+ * Imports rolled up plays into the history in a single transaction. A track already rolled up on the same day is left as it is,
+ * so importing the same backup again does not count its plays twice.
+ * With `dryRun` set, nothing is written and the count describes what the import would do.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param aggregates - The rolled up plays to import.
+ * @param dryRun - Whether to only count what the import would do.
+ * @returns A promise that resolves to the number of days of tracks added once the transaction has completed.
+ */
+export const importAggregatesToDB = (db: IDBDatabase, aggregates: DailyAggregate[], dryRun: boolean = false): Promise<number> => {
+  return new Promise<number>((resolve: (count: number) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["aggregates"], dryRun ? "readonly" : "readwrite");
+    const store = transaction.objectStore("aggregates");
+    const added = new Set<string>();
+
+    for (const aggregate of aggregates) {
+      const request = store.count(aggregate.id);
+      request.onsuccess = () => {
+        if (request.result > 0 || added.has(aggregate.id)) return;
+        added.add(aggregate.id);
+        if (!dryRun) store.put(aggregate);
+      };
+    }
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error importing rolled up plays:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      if (!dryRun && added.size > 0) {
+        window.dispatchEvent(new CustomEvent(HISTORY_UPDATED_EVENT));
+      }
+      resolve(added.size);
+    };
+  });
+};
+
+/**
+ * The window event dispatched after entries of the scrobble queue have changed.
+ */
+export const SCROBBLES_UPDATED_EVENT = "spicetify-history:scrobbles-updated";
+
+/**
+ * A listen in the format of the ListenBrainz API.
+ */
+export interface Listen {
+    /** The listen date, in seconds since the epoch. */
+    listened_at: number;
+    track_metadata: {
+        artist_name: string;
+        track_name: string;
+        release_name?: string;
+        additional_info?: Record<string, unknown>;
+    };
+}
+
+/**
+ * The submission status of a play: waiting in the queue, accepted by the server, or rejected by it.
+ */
+export type ScrobbleStatus = "pending" | "submitted" | "failed";
+
+/**
+ * An entry of the scrobble queue.
+ * Entries are kept once submitted, so the history list can show the status of each play.
+ */
+export interface ScrobbleEntry {
+    playId: string;
+    listen: Listen;
+    status: ScrobbleStatus;
+    /** The number of failed submission attempts. */
+    attempts: number;
+    /** When the next attempt is due. Only pending entries have one, so the "nextAttempt" index only holds them. */
+    nextAttempt?: number;
+    /** The last error returned by the server or the network. */
+    error?: string;
+}
+
+/**
+ * Adds a play to the scrobble queue, unless it is already in it.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param playId - The id of the play.
+ * @param listen - The listen to submit.
+ * @returns A promise that resolves to true if the play was queued, false if it already was.
+ */
+export const queueScrobbleInDB = (db: IDBDatabase, playId: string, listen: Listen): Promise<boolean> => {
+  return new Promise<boolean>((resolve: (queued: boolean) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["scrobbles"], "readwrite");
+    const store = transaction.objectStore("scrobbles");
+    let queued = false;
+    const request = store.getKey(playId);
+    request.onsuccess = () => {
+      if (request.result !== undefined) return;
+      const entry: ScrobbleEntry = { playId, listen, status: "pending", attempts: 0, nextAttempt: Date.now() };
+      store.put(entry);
+      queued = true;
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error queuing scrobble:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      if (queued) window.dispatchEvent(new CustomEvent(SCROBBLES_UPDATED_EVENT));
+      resolve(queued);
+    };
+  });
+};
+
+/**
+ * Reads the pending entries of the scrobble queue that are due, oldest due first.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param now - The current time.
+ * @param limit - The maximum number of entries to read.
+ * @returns A promise that resolves to the due entries.
+ */
+export const getDueScrobblesFromDB = (db: IDBDatabase, now: number, limit: number): Promise<ScrobbleEntry[]> => {
+  return new Promise<ScrobbleEntry[]>((resolve: (entries: ScrobbleEntry[]) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["scrobbles"], "readonly");
+    const request = transaction.objectStore("scrobbles").index("nextAttempt").getAll(IDBKeyRange.upperBound(now), limit);
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error retrieving due scrobbles:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve(request.result);
+  });
+};
+
+/**
+ * Finds when the next pending entry of the scrobble queue is due.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A promise that resolves to the time of the next attempt, or undefined if no entry is pending.
+ */
+export const getNextScrobbleAttemptFromDB = (db: IDBDatabase): Promise<number | undefined> => {
+  return new Promise<number | undefined>((resolve: (time: number | undefined) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["scrobbles"], "readonly");
+    const request = transaction.objectStore("scrobbles").index("nextAttempt").openKeyCursor();
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error retrieving next scrobble attempt:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve(request.result?.key as number | undefined);
+  });
+};
+
+/**
+ * Writes updated entries of the scrobble queue.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param entries - The updated entries.
+ * @returns A promise that resolves when the entries are saved.
+ */
+export const updateScrobblesInDB = (db: IDBDatabase, entries: ScrobbleEntry[]): Promise<void> => {
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(["scrobbles"], "readwrite");
+    const store = transaction.objectStore("scrobbles");
+    for (const entry of entries) store.put(entry);
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error updating scrobbles:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      window.dispatchEvent(new CustomEvent(SCROBBLES_UPDATED_EVENT));
+      resolve();
+    };
+  });
+};
+
+/**
+ * Makes the failed entries of the scrobble queue pending again, due now.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A promise that resolves to the number of entries queued again.
+ */
+export const retryFailedScrobblesInDB = (db: IDBDatabase): Promise<number> => {
+  return new Promise<number>((resolve: (count: number) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["scrobbles"], "readwrite");
+    const request = transaction.objectStore("scrobbles").openCursor();
+    const now = Date.now();
+    let count = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const entry = cursor.value as ScrobbleEntry;
+      if (entry.status === "failed") {
+        cursor.update({ ...entry, status: "pending", attempts: 0, nextAttempt: now });
+        count++;
+      }
+      cursor.continue();
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error retrying scrobbles:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      if (count > 0) window.dispatchEvent(new CustomEvent(SCROBBLES_UPDATED_EVENT));
+      resolve(count);
+    };
+  });
+};
+
+/**
+ * Reads the scrobble queue entries of the given plays.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param playIds - The ids of the plays.
+ * @returns A promise that resolves to the entries of the plays that were queued, keyed by play id.
+ */
+export const getScrobblesFromDB = (db: IDBDatabase, playIds: string[]): Promise<Map<string, ScrobbleEntry>> => {
+  return new Promise((resolve: (entries: Map<string, ScrobbleEntry>) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["scrobbles"], "readonly");
+    const store = transaction.objectStore("scrobbles");
+    const entries = new Map<string, ScrobbleEntry>();
+    for (const playId of playIds) {
+      const request = store.get(playId);
+      request.onsuccess = () => {
+        if (request.result) entries.set(playId, request.result);
+      };
+    }
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error retrieving scrobbles:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve(entries);
+  });
+};
+
+/**
+ * Counts the entries of the scrobble queue by status.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A promise that resolves to the number of entries of each status.
+ */
+export const getScrobbleCountsFromDB = (db: IDBDatabase): Promise<Record<ScrobbleStatus, number>> => {
+  return new Promise((resolve: (counts: Record<ScrobbleStatus, number>) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["scrobbles"], "readonly");
+    const request = transaction.objectStore("scrobbles").openCursor();
+    const counts: Record<ScrobbleStatus, number> = { pending: 0, submitted: 0, failed: 0 };
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      counts[(cursor.value as ScrobbleEntry).status]++;
+      cursor.continue();
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error counting scrobbles:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve(counts);
+  });
+};
+
+/**
+ * Why a restore point was taken.
+ */
+export type RestorePointReason = "scheduled" | "manual" | "before-restore";
+
+/**
+ * The summary of a snapshot of the history, listed without reading its records.
+ */
+export interface RestorePoint {
+    /** The time the snapshot was taken, which also identifies it. */
+    id: number;
+    reason: RestorePointReason;
+    plays: number;
+    tracks: number;
+    aggregates: number;
+    /** The approximate size of the snapshot, in bytes. */
+    size: number;
+}
+
+/**
+ * The records of a snapshot of the history.
+ */
+interface RestorePointData {
+    id: number;
+    tracks: Track[];
+    plays: Play[];
+    aggregates: DailyAggregate[];
+}
+
+/**
+ * Takes a snapshot of the history, in a single transaction so it is consistent.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param reason - Why the snapshot is taken.
+ * @param keep - The number of restore points to keep, the oldest being deleted, or undefined to delete none.
+ * @returns A promise that resolves to the new restore point.
+ */
+export const createRestorePointInDB = (db: IDBDatabase, reason: RestorePointReason, keep?: number): Promise<RestorePoint> => {
+  return new Promise<RestorePoint>((resolve: (restorePoint: RestorePoint) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "aggregates", "restorePoints", "restorePointData"], "readwrite");
+    const tracksRequest = transaction.objectStore("tracks").getAll();
+    const playsRequest = transaction.objectStore("plays").getAll();
+    const aggregatesRequest = transaction.objectStore("aggregates").getAll();
+    const pointStore = transaction.objectStore("restorePoints");
+    const dataStore = transaction.objectStore("restorePointData");
+    const id = Date.now();
+    let restorePoint: RestorePoint;
+
+    aggregatesRequest.onsuccess = () => {
+      const data: RestorePointData = {
+        id,
+        tracks: tracksRequest.result as Track[],
+        plays: playsRequest.result as Play[],
+        aggregates: aggregatesRequest.result as DailyAggregate[],
+      };
+      restorePoint = {
+        id,
+        reason,
+        plays: data.plays.length,
+        tracks: data.tracks.length,
+        aggregates: data.aggregates.length,
+        size: new Blob([JSON.stringify(data)]).size,
+      };
+      dataStore.put(data);
+      pointStore.put(restorePoint);
+
+      if (keep === undefined) return;
+      const keysRequest = pointStore.getAllKeys();
+      keysRequest.onsuccess = () => {
+        // Keys are creation times, so the oldest sort first. The new point is among them.
+        const ids = (keysRequest.result as number[]).sort((a, b) => a - b);
+        for (const oldId of ids.slice(0, Math.max(0, ids.length - keep))) {
+          pointStore.delete(oldId);
+          dataStore.delete(oldId);
+        }
+      };
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error creating restore point:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve(restorePoint);
+  });
+};
+
+/**
+ * Reads the restore points, without their records.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A promise that resolves to the restore points, newest first.
+ */
+export const getRestorePointsFromDB = (db: IDBDatabase): Promise<RestorePoint[]> => {
+  return new Promise<RestorePoint[]>((resolve: (restorePoints: RestorePoint[]) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["restorePoints"], "readonly");
+    const request = transaction.objectStore("restorePoints").getAll();
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error reading restore points:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve((request.result as RestorePoint[]).sort((a, b) => b.id - a.id));
+  });
+};
+
+/**
+ * Reads the records of a restore point, with its plays joined with their track records.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param id - The id of the restore point.
+ * @returns A promise that resolves to the plays and the rolled up plays of the snapshot.
+ */
+export const getRestorePointContentFromDB = (db: IDBDatabase, id: number): Promise<{ songs: Song[]; aggregates: DailyAggregate[] }> => {
+  return new Promise<{ songs: Song[]; aggregates: DailyAggregate[] }>((resolve, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["restorePointData"], "readonly");
+    const request = transaction.objectStore("restorePointData").get(id);
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error reading restore point:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      const data = request.result as RestorePointData | undefined;
+      if (!data) {
+        reject("Restore point not found");
+        return;
+      }
+      const tracks = new Map(data.tracks.map((track) => [track.uri, track]));
+      const songs = data.plays.filter((play) => tracks.has(play.uri)).map((play) => joinPlay(play, tracks.get(play.uri)!));
+      resolve({ songs, aggregates: data.aggregates });
+    };
+  });
+};
+
+/**
+ * Deletes a restore point.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param id - The id of the restore point.
+ * @returns A promise that resolves when the restore point is deleted.
+ */
+export const deleteRestorePointFromDB = (db: IDBDatabase, id: number): Promise<void> => {
+  return new Promise<void>((resolve: () => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["restorePoints", "restorePointData"], "readwrite");
+    transaction.objectStore("restorePoints").delete(id);
+    transaction.objectStore("restorePointData").delete(id);
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error deleting restore point:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve();
+  });
+};
+
+/**
+ * The differences between a restore point and the current history.
+ */
+export interface RestorePointDiff {
+    /** Plays in the restore point that are no longer in the history, which restoring brings back. */
+    restored: number;
+    /** Plays in the history that are not in the restore point, which restoring removes. */
+    removed: number;
+    /** Plays in both. */
+    unchanged: number;
+    /** The change in the number of daily totals of rolled up plays. */
+    aggregatesChange: number;
+    /** The first few plays brought back, most recent first. */
+    restoredSample: Song[];
+    /** The first few plays removed, most recent first. */
+    removedSample: Song[];
+}
+
+/**
+ * Compares a restore point with the current history.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param id - The id of the restore point.
+ * @param sampleSize - The number of plays listed in each sample.
+ * @returns A promise that resolves to the differences.
+ */
+export const getRestorePointDiffFromDB = (db: IDBDatabase, id: number, sampleSize: number = 10): Promise<RestorePointDiff> => {
+  return new Promise<RestorePointDiff>((resolve: (diff: RestorePointDiff) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "aggregates", "restorePointData"], "readonly");
+    const dataRequest = transaction.objectStore("restorePointData").get(id);
+    const tracksRequest = transaction.objectStore("tracks").getAll();
+    const playsRequest = transaction.objectStore("plays").getAll();
+    const aggregatesRequest = transaction.objectStore("aggregates").count();
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error comparing restore point:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      const data = dataRequest.result as RestorePointData | undefined;
+      if (!data) {
+        reject("Restore point not found");
+        return;
+      }
+      const tracks = new Map<string, Track>();
+      for (const track of [...data.tracks, ...(tracksRequest.result as Track[])]) {
+        tracks.set(track.uri, track);
+      }
+      const toSongs = (plays: Play[]) => plays
+        .sort((a, b) => b.listenDate - a.listenDate)
+        .slice(0, sampleSize)
+        .flatMap((play) => {
+          const track = tracks.get(play.uri);
+          return track ? [joinPlay(play, track)] : [];
+        });
+
+      const currentPlays = playsRequest.result as Play[];
+      const currentIds = new Set(currentPlays.map((play) => play.id));
+      const pointIds = new Set(data.plays.map((play) => play.id));
+      const restored = data.plays.filter((play) => !currentIds.has(play.id));
+      const removed = currentPlays.filter((play) => !pointIds.has(play.id));
+      resolve({
+        restored: restored.length,
+        removed: removed.length,
+        unchanged: data.plays.length - restored.length,
+        aggregatesChange: data.aggregates.length - aggregatesRequest.result,
+        restoredSample: toSongs(restored),
+        removedSample: toSongs(removed),
+      });
+    };
+  });
+};
+
+/**
+ * Replaces the history with a restore point, in a single transaction.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param id - The id of the restore point.
+ * @returns A promise that resolves to the number of plays in the restored history.
+ */
+export const restoreRestorePointInDB = (db: IDBDatabase, id: number): Promise<number> => {
+  return new Promise<number>((resolve: (count: number) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "aggregates", "restorePointData", "changes"], "readwrite");
+    const playStore = transaction.objectStore("plays");
+    const keysRequest = playStore.getAllKeys();
+    const dataRequest = transaction.objectStore("restorePointData").get(id);
+    let count = 0;
+
+    dataRequest.onsuccess = () => {
+      const data = dataRequest.result as RestorePointData | undefined;
+      if (!data) {
+        transaction.abort();
+        return;
+      }
+      // Record the plays brought back and removed, so sync passes the restore on.
+      const currentIds = new Set(keysRequest.result as string[]);
+      const pointIds = new Set(data.plays.map((play) => play.id));
+      recordChanges(transaction, [...pointIds].filter((playId) => !currentIds.has(playId)), false);
+      recordChanges(transaction, [...currentIds].filter((playId) => !pointIds.has(playId)), true);
+
+      const trackStore = transaction.objectStore("tracks");
+      const aggregateStore = transaction.objectStore("aggregates");
+      trackStore.clear();
+      playStore.clear();
+      aggregateStore.clear();
+      for (const track of data.tracks) trackStore.put(track);
+      for (const play of data.plays) playStore.put(play);
+      for (const aggregate of data.aggregates) aggregateStore.put(aggregate);
+      count = data.plays.length;
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error restoring restore point:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.onabort = () => {
+      if (!transaction.error) reject("Restore point not found");
+    };
+
+    transaction.oncomplete = () => {
+      window.dispatchEvent(new CustomEvent(HISTORY_UPDATED_EVENT));
+      resolve(count);
+    };
+  });
+};
+
+/**
+ * A change of a play as exchanged between machines: the play as it is after the change, or its deletion.
+ */
+export interface SyncChange {
+    /** The id of the play. */
+    id: string;
+    changedAt: number;
+    /** The machine the change was made on. */
+    device: string;
+    /** The play joined with its track record, or undefined if the play was deleted. */
+    song?: Song;
+}
+
+/**
+ * The outcome of merging changes from another machine.
+ */
+export interface MergeCounts {
+    added: number;
+    updated: number;
+    deleted: number;
+}
+
+/**
+ * Orders two changes of the same play. The later change wins; changes made at the same time are ordered by machine, and then a deletion wins.
+ * Every machine orders changes the same way, so they all end up with the same history whatever order they sync in.
+ *
+ * @param a - A change.
+ * @param b - Another change of the same play.
+ * @returns A positive number if `a` wins, a negative number if `b` wins, and 0 if they are the same change.
+ */
+export const compareChanges = (a: SyncChange, b: SyncChange): number =>
+    a.changedAt - b.changedAt
+    || (a.device < b.device ? -1 : a.device > b.device ? 1 : 0)
+    || Number(!a.song) - Number(!b.song);
+
+/**
+ * Reads the recorded changes with the plays they leave behind.
+ * Changes of plays that were rolled up since are left out, as the plays no longer exist individually.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param device - The id of this machine, given to the changes made here.
+ * @param pendingOnly - Whether to only read the changes made here that were not synced yet.
+ * @returns A promise that resolves to the changes.
+ */
+export const getChangesFromDB = (db: IDBDatabase, device: string, pendingOnly: boolean): Promise<SyncChange[]> => {
+  return new Promise<SyncChange[]>((resolve: (changes: SyncChange[]) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "changes"], "readonly");
+    const trackStore = transaction.objectStore("tracks");
+    const playStore = transaction.objectStore("plays");
+    const request = transaction.objectStore("changes").getAll();
+    const changes: SyncChange[] = [];
+
+    request.onsuccess = () => {
+      for (const record of request.result as ChangeRecord[]) {
+        if (pendingOnly && record.device) continue;
+        const change: SyncChange = { id: record.id, changedAt: record.changedAt, device: record.device ?? device };
+        if (record.deleted) {
+          changes.push(change);
+          continue;
+        }
+        const playRequest = playStore.get(record.id);
+        playRequest.onsuccess = () => {
+          const play = playRequest.result as Play | undefined;
+          if (!play) return;
+          const trackRequest = trackStore.get(play.uri);
+          trackRequest.onsuccess = () => {
+            const track = trackRequest.result as Track | undefined;
+            if (track) changes.push({ ...change, song: joinPlay(play, track) });
+          };
+        };
+      }
+    };
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error reading changes:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve(changes);
+  });
+};
+
+/**
+ * Marks changes made here as synced, unless the play has changed again since they were read.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param changes - The synced changes.
+ * @param device - The id of this machine.
+ * @returns A promise that resolves when the changes are marked.
+ */
+export const markChangesSyncedInDB = (db: IDBDatabase, changes: SyncChange[], device: string): Promise<void> => {
+  return new Promise<void>((resolve: () => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["changes"], "readwrite");
+    const changeStore = transaction.objectStore("changes");
+    for (const change of changes) {
+      const request = changeStore.get(change.id);
+      request.onsuccess = () => {
+        const record = request.result as ChangeRecord | undefined;
+        if (record && !record.device && record.changedAt === change.changedAt) changeStore.put({ ...record, device });
+      };
+    }
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error marking changes as synced:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => resolve();
+  });
+};
+
+/**
+ * Merges changes from other machines into the history, in a single transaction.
+ * A change is applied only if it wins over the last change of the play recorded here (see `compareChanges`),
+ * so merging the same changes twice does nothing, and a play deleted here only comes back if it was changed elsewhere after its deletion.
+ * Deleted plays are removed without going through the trash, as they are already in the trash of the machine they were deleted on.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param changes - The validated changes.
+ * @param device - The id of this machine, to order the changes made here.
+ * @param before - Plays listened to before this time are not added, as they are rolled up here.
+ * @returns A promise that resolves to the counts once the changes are merged.
+ */
+export const mergeChangesInDB = (db: IDBDatabase, changes: SyncChange[], device: string, before: number = 0): Promise<MergeCounts> => {
+  return new Promise<MergeCounts>((resolve: (counts: MergeCounts) => void, reject: (reason: string) => void) => {
+    const transaction = db.transaction(["tracks", "plays", "changes"], "readwrite");
+    const trackStore = transaction.objectStore("tracks");
+    const playStore = transaction.objectStore("plays");
+    const changeStore = transaction.objectStore("changes");
+    const counts: MergeCounts = { added: 0, updated: 0, deleted: 0 };
+
+    // Keep the winning change of each play, so the result does not depend on their order.
+    const winners = new Map<string, SyncChange>();
+    for (const change of changes) {
+      const winner = winners.get(change.id);
+      if (!winner || compareChanges(change, winner) > 0) winners.set(change.id, change);
+    }
+
+    for (const change of winners.values()) {
+      const recordRequest = changeStore.get(change.id);
+      recordRequest.onsuccess = () => {
+        const record = recordRequest.result as ChangeRecord | undefined;
+        if (record) {
+          const local: SyncChange = { id: record.id, changedAt: record.changedAt, device: record.device ?? device };
+          // Only whether the play was deleted matters to the order, not its data.
+          if (!record.deleted) local.song = change.song;
+          if (compareChanges(change, local) <= 0) return;
+        }
+        if (change.song && change.song.listenDate < before) return;
+
+        const stored: ChangeRecord = { id: change.id, changedAt: change.changedAt, deleted: !change.song, device: change.device };
+        changeStore.put(stored);
+        const playRequest = playStore.get(change.id);
+        playRequest.onsuccess = () => {
+          const existing = playRequest.result as Play | undefined;
+          if (!change.song) {
+            if (!existing) return;
+            playStore.delete(change.id);
+            counts.deleted++;
+            const countRequest = playStore.index("uri").count(existing.uri);
+            countRequest.onsuccess = () => {
+              if (countRequest.result === 0) trackStore.delete(existing.uri);
+            };
+            return;
+          }
+          const { track, play } = splitSong(change.song);
+          playStore.put(play);
+          if (existing) counts.updated++;
+          else counts.added++;
+          // A track record already here is kept, as it may be more recent.
+          const trackRequest = trackStore.count(track.uri);
+          trackRequest.onsuccess = () => {
+            if (trackRequest.result === 0) trackStore.put(track);
+          };
+        };
+      };
+    }
+
+    transaction.onerror = (event: Event) => {
+      const errorMessage = (event.target as IDBRequest).error?.message || "Unknown error";
+      console.error("Error merging changes:", errorMessage);
+      reject(errorMessage);
+    };
+
+    transaction.oncomplete = () => {
+      if (counts.added + counts.updated + counts.deleted > 0) window.dispatchEvent(new CustomEvent(HISTORY_UPDATED_EVENT));
+      resolve(counts);
+    };
+  });
+};
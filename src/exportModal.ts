@@ -0,0 +1,79 @@
+/**
+ * exportModal.ts
+ *
+ * The "Export History" modal. The user picks a format, optionally a date range, and whether to export only the plays matching the current search or selection.
+ */
+
+import { Song } from "./db";
+import { exportHistory, ExportFormat, EXPORT_FORMATS } from "./exporter";
+import { parseDateInput } from "./format";
+
+/**
+ * Displays the "Export History" modal.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param filter - The predicate of the current search or selection, or undefined when the list is not filtered.
+ * @param filterLabel - The label of the option limiting the export to the plays passing `filter`.
+ */
+export const showExportModal = (
+  db: IDBDatabase,
+  filter?: (song: Song) => boolean,
+  filterLabel: string = "Only plays matching the current search"
+): void => {
+  const exportHistoryModal = document.createElement("div");
+  exportHistoryModal.className = "exportHistoryModal";
+  exportHistoryModal.innerHTML = `
+    <select class="exportFormat">
+      ${EXPORT_FORMATS.map(({ format, label }) => `<option value="${format}">${label}</option>`).join("")}
+    </select>
+    <div class="exportRange">
+      <input type="date" class="exportFrom" />
+      <span>to</span>
+      <input type="date" class="exportTo" />
+    </div>
+    <label class="exportFiltered">
+      <input type="checkbox" class="exportFilteredInput" ${filter ? "checked" : "disabled"} />
+      ${filterLabel}
+    </label>
+    <button class="importButton exportButton">Export</button>
+  `;
+
+  const formatSelect = exportHistoryModal.querySelector(".exportFormat") as HTMLSelectElement;
+  const fromInput = exportHistoryModal.querySelector(".exportFrom") as HTMLInputElement;
+  const toInput = exportHistoryModal.querySelector(".exportTo") as HTMLInputElement;
+  const filteredInput = exportHistoryModal.querySelector(".exportFilteredInput") as HTMLInputElement;
+  const exportButton = exportHistoryModal.querySelector(".exportButton") as HTMLButtonElement;
+
+  exportButton.addEventListener("click", async () => {
+    exportButton.disabled = true;
+    Spicetify.showNotification("Exporting history...");
+    try {
+      const count = await exportHistory(db, {
+        format: formatSelect.value as ExportFormat,
+        from: parseDateInput(fromInput.value, false),
+        to: parseDateInput(toInput.value, true),
+        filter: filteredInput.checked ? filter : undefined,
+      });
+      if (count === 0) {
+        Spicetify.showNotification("No history to export");
+        return;
+      }
+      Spicetify.showNotification(`History exported: ${count} plays`);
+      Spicetify.PopupModal.hide();
+    } catch (error) {
+      console.error("Error exporting history:", error);
+      Spicetify.showNotification("Failed to export history", true);
+    } finally {
+      exportButton.disabled = false;
+    }
+  });
+
+  Spicetify.PopupModal.display({
+    title: "Export History",
+    content: exportHistoryModal,
+  });
+
+  setTimeout(() => {
+    document.querySelector(".main-trackCreditsModal-container")?.classList.add("exportHistoryModalContainer");
+  }, 100);
+};
@@ -0,0 +1,146 @@
+/**
+ * exporter.ts
+ *
+ * This module writes the history to a downloadable file.
+ * Four formats are available:
+ * - JSON, the array of songs read back by `importer.ts`.
+ * - JSON Lines, one song per line.
+ * - CSV, one play per row, for spreadsheets.
+ * - Scrobbles, the listen format of ListenBrainz imports, which Last.fm scrobble importers read as well.
+ *
+ * Plays are read and serialized a batch at a time, yielding to the UI between batches, and the file is assembled from the serialized batches.
+ */
+
+import { Song, getHistoryBatchFromDB, toDateKey } from "./db";
+import { toListen } from "./scrobbler";
+
+export type ExportFormat = "json" | "jsonl" | "csv" | "scrobble";
+
+/**
+ * The formats offered when exporting, with their descriptions and file types.
+ */
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; type: string }[] = [
+    { format: "json", label: "JSON (can be imported back)", extension: "json", type: "application/json" },
+    { format: "jsonl", label: "JSON Lines", extension: "jsonl", type: "application/x-ndjson" },
+    { format: "csv", label: "CSV (spreadsheets)", extension: "csv", type: "text/csv" },
+    { format: "scrobble", label: "Scrobbles (ListenBrainz / Last.fm)", extension: "json", type: "application/json" },
+];
+
+/**
+ * What to export.
+ */
+export interface ExportOptions {
+    format: ExportFormat;
+    /** The earliest listen date included, or undefined for no lower bound. */
+    from?: number;
+    /** The latest listen date included, or undefined for no upper bound. */
+    to?: number;
+    /** An optional predicate the plays must pass, e.g. the current search. */
+    filter?: (song: Song) => boolean;
+}
+
+// Number of plays read from IndexedDB and serialized at a time.
+const BATCH_SIZE = 1000;
+
+const CSV_COLUMNS = ["listen_date", "track", "artists", "album", "duration_ms", "played_ms", "skipped", "track_uri", "album_uri", "media_type", "position_ms", "context_uri", "context_type", "context_name", "shuffle", "repeat", "autoplay"];
+
+/**
+ * Quotes a CSV field when it contains a separator, a quote or a line break.
+ */
+const escapeCsv = (value: string): string => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Serializes the songs of a batch in a format.
+ *
+ * @param songs - The songs of the batch.
+ * @param format - The export format.
+ * @param first - Whether this is the first batch written to the file.
+ * @returns The serialized batch.
+ */
+const serializeBatch = (songs: Song[], format: ExportFormat, first: boolean): string => {
+    switch (format) {
+        case "json":
+            return songs.map((song, index) => `${first && index === 0 ? "" : ",\n"}${JSON.stringify(song)}`).join("");
+        case "scrobble":
+            return songs.map((song, index) => `${first && index === 0 ? "" : ",\n"}${JSON.stringify(toListen(song))}`).join("");
+        case "jsonl":
+            return songs.map((song) => `${JSON.stringify(song)}\n`).join("");
+        case "csv":
+            return songs.map((song) => `${[
+                new Date(song.listenDate).toISOString(),
+                song.name,
+                song.artists.map((artist) => artist.name).join(", "),
+                song.album.name,
+                `${song.duration.milliseconds}`,
+                `${song.playedMs}`,
+                `${song.skipped}`,
+                song.uri,
+                song.album.uri,
+                song.mediaType,
+                song.position !== undefined ? `${song.position}` : "",
+                song.context?.uri ?? "",
+                song.context?.type ?? "",
+                song.context?.name ?? "",
+                song.context ? `${song.context.shuffle}` : "",
+                song.context ? `${song.context.repeat}` : "",
+                song.context ? `${song.context.autoplay}` : "",
+            ].map(escapeCsv).join(",")}\r\n`).join("");
+    }
+};
+
+/**
+ * Builds the name of an export file from the exported date range, or the current date.
+ *
+ * @param options - What is exported.
+ * @returns The file name, with the extension of the format.
+ */
+export const getExportFileName = (options: ExportOptions): string => {
+    const { extension } = EXPORT_FORMATS.find(({ format }) => format === options.format) ?? EXPORT_FORMATS[0];
+    const range = options.from !== undefined || options.to !== undefined
+        ? `${options.from !== undefined ? toDateKey(options.from) : "start"}-to-${toDateKey(options.to ?? Date.now())}`
+        : toDateKey(Date.now());
+    const suffix = options.format === "scrobble" ? "-scrobbles" : "";
+    return `spicetify-history-${range}${suffix}.${extension}`;
+};
+
+/**
+ * Exports the history as a downloadable file, in chronological order.
+ * Skipped plays, episodes and chapters are left out of scrobbles, which only count plays of music.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param options - The format and the plays to export.
+ * @returns A promise that resolves to the number of exported plays once the download is triggered.
+ */
+export const exportHistory = async (db: IDBDatabase, options: ExportOptions): Promise<number> => {
+    const { format, from, to, filter } = options;
+    const { type } = EXPORT_FORMATS.find((entry) => entry.format === format) ?? EXPORT_FORMATS[0];
+    const parts: string[] = [];
+    if (format === "json" || format === "scrobble") parts.push("[\n");
+    // The byte order mark tells spreadsheets the file is UTF-8.
+    if (format === "csv") parts.push(`\uFEFF${CSV_COLUMNS.join(",")}\r\n`);
+
+    let count = 0;
+    let batch = await getHistoryBatchFromDB(db, BATCH_SIZE, from, to);
+    while (batch.length > 0) {
+        const songs = batch.filter((song) => (!filter || filter(song)) && (format !== "scrobble" || (!song.skipped && song.mediaType === "track")));
+        if (songs.length > 0) parts.push(serializeBatch(songs, format, count === 0));
+        count += songs.length;
+        if (batch.length < BATCH_SIZE) break;
+
+        // Let the UI update before reading the next batch.
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        const last = batch[batch.length - 1];
+        batch = await getHistoryBatchFromDB(db, BATCH_SIZE, from, to, { listenDate: last.listenDate, playId: last.playId });
+    }
+    if (count === 0) return 0;
+    if (format === "json" || format === "scrobble") parts.push("\n]\n");
+
+    const url = URL.createObjectURL(new Blob(parts, { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = getExportFileName(options);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+    return count;
+};
@@ -1,6 +1,36 @@
 // Listens for song changes and stores track details in IndexedDB.
-import { Song } from "../db";
-import { openDB, saveSongToDB } from "../db";
+// Music tracks, podcast episodes and audiobook chapters are recorded; for episodes and chapters the playback position is kept so they can be resumed.
+// Each play is measured while it lasts: it is saved as skipped when it starts, and counted once the listened time passes the play threshold.
+// Each play records where it was played from (playlist, album, radio, search...) and the shuffle, repeat and autoplay state.
+// Plays blocked by the tracking rules are not recorded at all; tracking can be paused from the playbar.
+// History actions are added to the context menu, and on startup plays kept in the trash for too long are purged and plays older than the retention are rolled up.
+// Restore points are taken on the backup schedule, and the history is synced with the sync target when automatic sync is on.
+// When scrobbling is enabled, a "now playing" update is sent when a track starts, and the play is queued for submission once it counts.
+import { Song, MediaType } from "../db";
+import { openDB, saveSongToDB, createPlayId } from "../db";
+import { createListenTimer, getPlayThreshold, hasReachedThreshold } from "../tracking";
+import { getTrackingBlock, getTrackingRules, setTrackingRules, TrackingRules, TRACKING_RULES_CHANGED_EVENT } from "../trackingRules";
+import { queueListen, startScrobbler, submitNowPlaying } from "../scrobbler";
+import { registerContextMenu } from "../contextMenu";
+import { readPlayContext } from "../playContext";
+import { purgeExpiredTrash } from "../trash";
+import { applyRetention } from "../retention";
+import { startBackupScheduler } from "../backups";
+import { startSyncScheduler } from "../sync";
+
+// How often the playback position of an episode or chapter is saved while it plays.
+const POSITION_SAVE_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Reads the media type of the playing item.
+ * @returns The media type, or null for items that are not recorded, such as ads.
+ */
+const getMediaType = (item: Spicetify.PlayerTrack): MediaType | null => {
+  if (item.type === "chapter" || item.uri.startsWith("spotify:chapter:")) return "chapter";
+  if (item.type === "episode") return "episode";
+  if (item.type === "track") return "track";
+  return null;
+};
 
 (async () => {
   while (!Spicetify?.showNotification && Spicetify) {
@@ -8,12 +38,93 @@ import { openDB, saveSongToDB } from "../db";
   }
 
   const db = await openDB();
+  const flushScrobbles = startScrobbler(db);
+  registerContextMenu(db);
+  purgeExpiredTrash(db).catch((error) => console.error("Failed to purge trash:", error));
+  applyRetention(db).catch((error) => console.error("Failed to roll up old plays:", error));
+  startBackupScheduler(db);
+  startSyncScheduler(db);
+
+  // Playbar button pausing and resuming tracking, kept in sync with the setting in the app.
+  const pauseButton = new Spicetify.Playbar.Button(
+    getTrackingRules().paused ? "Resume history tracking" : "Pause history tracking",
+    "block",
+    () => {
+      const rules = getTrackingRules();
+      setTrackingRules({ ...rules, paused: !rules.paused });
+      Spicetify.showNotification(rules.paused ? "History tracking resumed" : "History tracking paused");
+    },
+    false,
+    getTrackingRules().paused
+  );
+  window.addEventListener(TRACKING_RULES_CHANGED_EVENT, (event) => {
+    const { paused } = (event as CustomEvent<TrackingRules>).detail;
+    pauseButton.active = paused;
+    pauseButton.label = paused ? "Resume history tracking" : "Pause history tracking";
+  });
+
   let currentSong: Song | null = null;
+  let listenTimer: ReturnType<typeof createListenTimer> | null = null;
+  let lastSavedAt = 0;
+
+  // Number of song changes so far; a change handler that is no longer the latest leaves the current play alone.
+  let songChanges = 0;
+
+  // Whether the current play passed the tracking rules; until then it is timed, but neither saved nor scrobbled.
+  let currentRecorded = false;
+
+  const savePlay = async (song: Song) => {
+    lastSavedAt = Date.now();
+    try {
+      await saveSongToDB(db, song);
+      console.log("Song saved:", song.name, song.skipped ? "(skipped)" : "");
+    } catch (error) {
+      console.error("Failed to save song:", error);
+    }
+  };
+
+  const scrobblePlay = async (song: Song) => {
+    try {
+      if (await queueListen(db, song)) flushScrobbles();
+    } catch (error) {
+      console.error("Failed to queue scrobble:", error);
+    }
+  };
+
+  /**
+   * Brings the listened time of the current play up to date.
+   * @returns True if the play just passed the play threshold.
+   */
+  const updateCurrentPlay = (): boolean => {
+    if (!currentSong || !listenTimer) return false;
+    currentSong.playedMs = listenTimer.getPlayedMs();
+    if (currentSong.mediaType !== "track") currentSong.position = listenTimer.getPosition();
+    if (currentRecorded && currentSong.skipped && hasReachedThreshold(currentSong.playedMs, currentSong.duration.milliseconds, getPlayThreshold())) {
+      currentSong.skipped = false;
+      scrobblePlay({ ...currentSong });
+      return true;
+    }
+    return false;
+  };
 
   Spicetify.Player.addEventListener("songchange", async () => {
     const song = Spicetify.Player.data?.item;
+    const change = ++songChanges;
 
-    if (song && song.type === "track") {
+    if (currentSong) {
+      updateCurrentPlay();
+      if (currentRecorded) savePlay({ ...currentSong });
+      currentSong = null;
+      listenTimer = null;
+    }
+    currentRecorded = false;
+
+    const mediaType = song ? getMediaType(song) : null;
+    if (song && mediaType) {
+      // The play is dated and timed from the change itself, before the tracking rules and the context are looked up.
+      const listenDate = new Date().getTime();
+      const progress = Spicetify.Player.getProgress();
+      const lookup = Promise.all([getTrackingBlock(song, Spicetify.Player.data?.context?.uri), readPlayContext(song)]);
 
       const artists = song.artists?.map(artist => ({
         name: artist.name,
@@ -25,27 +136,82 @@ import { openDB, saveSongToDB } from "../db";
         url: image.url,
       })) || [];
 
-      currentSong = {
+      const play: Song = {
+        playId: createPlayId(song.uri, listenDate),
         uid: song.uid,
         uri: song.uri,
         name: song.name,
         duration: song.duration,
+        mediaType,
+        // Episodes and chapters keep their show or audiobook here.
         album: {
-          uri: song.album?.uri,
-          name: song.album?.name,
+          uri: song.album?.uri || (song.metadata as Record<string, string>)?.album_uri || "",
+          name: song.album?.name || (song.metadata as Record<string, string>)?.album_title || "",
         },
         artists: artists,
         metadata: song.metadata,
         images: images,
-        listenDate: new Date().getTime(),
+        listenDate: listenDate,
+        playedMs: 0,
+        skipped: true,
+        ...(mediaType !== "track" && { position: progress }),
       };
+      currentSong = play;
+      listenTimer = createListenTimer(progress);
+
+      const [block, context] = await lookup;
+      if (block) {
+        console.log("Play not recorded:", song.name, `(${block})`);
+        if (change === songChanges) {
+          currentSong = null;
+          listenTimer = null;
+        }
+        return;
+      }
+
+      play.context = context;
 
-      try {
-        await saveSongToDB(db, currentSong);
-        console.log("Song saved:", currentSong.name);
-      } catch (error) {
-        console.error("Failed to save song:", error);
+      if (change !== songChanges) {
+        // The player moved on during the lookup: the listened time was brought up to date by the next change.
+        if (hasReachedThreshold(play.playedMs, play.duration.milliseconds, getPlayThreshold())) {
+          play.skipped = false;
+          scrobblePlay({ ...play });
+        }
+        await savePlay({ ...play });
+        return;
       }
+
+      currentRecorded = true;
+      submitNowPlaying(play);
+      await savePlay({ ...play });
     }
   });
+
+  Spicetify.Player.addEventListener("onprogress", (event) => {
+    if (!currentSong || !listenTimer) return;
+    listenTimer.tick(event?.data ?? Spicetify.Player.getProgress());
+    if (!currentRecorded) return;
+    const positionDue = currentSong.mediaType !== "track" && Date.now() - lastSavedAt >= POSITION_SAVE_INTERVAL_MS;
+    if (updateCurrentPlay() || positionDue) {
+      savePlay({ ...currentSong });
+    }
+  });
+
+  Spicetify.Player.addEventListener("onplaypause", () => {
+    if (!currentSong || !listenTimer) return;
+    if (Spicetify.Player.isPlaying()) {
+      // Do not count the time spent paused, nor a seek made while paused.
+      listenTimer.resync(Spicetify.Player.getProgress());
+    } else {
+      listenTimer.tick(Spicetify.Player.getProgress());
+      updateCurrentPlay();
+      if (currentRecorded) savePlay({ ...currentSong });
+    }
+  });
+
+  window.addEventListener("beforeunload", () => {
+    if (!currentSong || !currentRecorded) return;
+    updateCurrentPlay();
+    savePlay({ ...currentSong });
+  });
 })();
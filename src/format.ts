@@ -0,0 +1,58 @@
+/**
+ * format.ts
+ *
+ * Formatting and parsing helpers shared by the views of the History app.
+ */
+
+/**
+ * Formats a song duration (milliseconds) into a readable string (MM:SS).
+ * @param ms - Duration in milliseconds.
+ * @returns Formatted string.
+ */
+export const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = ((ms % 60000) / 1000).toFixed(0);
+  return `${minutes}:${parseInt(seconds) < 10 ? "0" : ""}${seconds}`;
+};
+
+/**
+ * Formats a total listening time (milliseconds) into hours and minutes, e.g. "12 h 5 min".
+ * @param ms - Listening time in milliseconds.
+ * @returns Formatted string.
+ */
+export const formatListeningTime = (ms: number) => {
+  const totalMinutes = Math.round(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours} h ${minutes} min` : `${minutes} min`;
+};
+
+/**
+ * Converts a date input value (YYYY-MM-DD) to a local timestamp.
+ * @param value - The input value.
+ * @param endOfDay - Whether to return the last millisecond of that day instead of the first.
+ * @returns The timestamp, or undefined if the value is empty.
+ */
+export const parseDateInput = (value: string, endOfDay: boolean): number | undefined => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (!endOfDay) return date.getTime();
+  date.setDate(date.getDate() + 1);
+  return date.getTime() - 1;
+};
+
+/**
+ * Formats a size in bytes, e.g. "12.3 MB".
+ * @param bytes - Size in bytes.
+ * @returns Formatted string.
+ */
+export const formatBytes = (bytes: number) => {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
@@ -0,0 +1,151 @@
+/**
+ * importModal.ts
+ *
+ * The "Import History" modal. The user picks one or more files and a conflict policy, previews what the import would do, and then imports.
+ * The files are read once, when first previewed, and the import writes the records read for the preview.
+ * The modal stays open after the import when records were rejected, so their errors can be read.
+ */
+
+import { ImportPolicy } from "./db";
+import { importHistoryFiles, readHistoryFiles, HistoryFilesContent, ImportReport, IMPORT_POLICIES } from "./importer";
+
+// Number of per-record errors listed in the modal; the rest are only counted.
+const MAX_LISTED_ERRORS = 50;
+
+/**
+ * Escapes text for use in HTML.
+ */
+const escapeHtml = (text: string): string => {
+  const element = document.createElement("span");
+  element.textContent = text;
+  return element.innerHTML;
+};
+
+/**
+ * Renders an import report as HTML.
+ * @param report - The report to render.
+ * @param dryRun - Whether the report comes from a dry run.
+ * @returns The HTML of the report.
+ */
+const renderReport = (report: ImportReport, dryRun: boolean): string => {
+  const summary = dryRun
+    ? `${report.total} records: ${report.added} new, ${report.duplicates} already in history (${report.updated} would change), ${report.invalid} invalid.`
+    : `Imported ${report.added} new plays and updated ${report.updated}. ${report.duplicates - report.updated} duplicates left unchanged, ${report.invalid} invalid records skipped.`;
+  const rolledUp = report.rolledUp > 0
+    ? ` ${report.rolledUp} days of rolled up plays ${dryRun ? "would be" : "were"} added; those already in history are kept.`
+    : "";
+  const errors = report.errors.slice(0, MAX_LISTED_ERRORS).map(
+    (error) => `<li>${escapeHtml(error.file)}, record ${error.record}: ${error.message}</li>`
+  );
+  if (report.errors.length > MAX_LISTED_ERRORS) {
+    errors.push(`<li>…and ${report.errors.length - MAX_LISTED_ERRORS} more</li>`);
+  }
+  return `<p>${summary}${rolledUp}</p>${errors.length ? `<ul class="importErrors">${errors.join("")}</ul>` : ""}`;
+};
+
+/**
+ * Displays the "Import History" modal.
+ *
+ * @param db - The open IndexedDB database instance.
+ */
+export const showImportModal = (db: IDBDatabase): void => {
+  const importHistoryModal = document.createElement("div");
+  importHistoryModal.className = "importHistoryModal";
+  importHistoryModal.innerHTML = `
+    <div class="fileInputContainer">
+      <label for="import_file_input" class="custom-file-upload">&#10514;</label>
+      <input
+        id="import_file_input"
+        class="fileInput"
+        type="file"
+        name="file"
+        accept=".json,.jsonl"
+        multiple
+        required
+      />
+    </div>
+    <p class="importHint">History files exported by this app, backup files, or the StreamingHistory / Streaming_History_Audio files of Spotify's "Download your data".</p>
+    <select class="importPolicy">
+      ${IMPORT_POLICIES.map(({ policy, label }) => `<option value="${policy}">${label}</option>`).join("")}
+    </select>
+    <div class="importButtons">
+      <button class="importButton importPreviewButton">Preview</button>
+      <button class="importButton importConfirmButton" disabled>Import</button>
+    </div>
+    <div class="importReport"></div>
+  `;
+
+  const fileInput = importHistoryModal.querySelector(".fileInput") as HTMLInputElement;
+  const policySelect = importHistoryModal.querySelector(".importPolicy") as HTMLSelectElement;
+  const previewButton = importHistoryModal.querySelector(".importPreviewButton") as HTMLButtonElement;
+  const importButton = importHistoryModal.querySelector(".importConfirmButton") as HTMLButtonElement;
+  const reportContainer = importHistoryModal.querySelector(".importReport") as HTMLDivElement;
+
+  const getFiles = (): File[] | null => {
+    if (!fileInput.files || fileInput.files.length === 0) {
+      Spicetify.showNotification("Please select a file");
+      return null;
+    }
+    return Array.from(fileInput.files);
+  };
+
+  // Records read from the selected files by the last preview
+  let content: HistoryFilesContent | null = null;
+
+  // A new file or policy needs a new preview before importing; only new files need to be read again.
+  const resetPreview = () => {
+    importButton.disabled = true;
+    reportContainer.innerHTML = "";
+  };
+  fileInput.addEventListener("change", () => {
+    content = null;
+    resetPreview();
+  });
+  policySelect.addEventListener("change", resetPreview);
+
+  previewButton.addEventListener("click", async () => {
+    const files = getFiles();
+    if (!files) return;
+    reportContainer.innerHTML = "<p>Reading files...</p>";
+    try {
+      if (!content) content = await readHistoryFiles(db, files);
+      const report = await importHistoryFiles(db, content, policySelect.value as ImportPolicy, true);
+      reportContainer.innerHTML = renderReport(report, true);
+      importButton.disabled = report.added + report.updated + report.rolledUp === 0;
+    } catch (error) {
+      console.error("Failed to read history file:", error);
+      reportContainer.innerHTML = `<p>Could not read the files: ${escapeHtml(error instanceof Error ? error.message : String(error))}</p>`;
+    }
+  });
+
+  importButton.addEventListener("click", async () => {
+    if (!content) return;
+    importButton.disabled = true;
+    previewButton.disabled = true;
+    Spicetify.showNotification("Importing history...");
+    try {
+      const report = await importHistoryFiles(db, content, policySelect.value as ImportPolicy);
+      Spicetify.showNotification(`History imported: ${report.added} added, ${report.updated} updated`);
+      if (report.invalid === 0) {
+        Spicetify.PopupModal.hide();
+        return;
+      }
+      reportContainer.innerHTML = renderReport(report, false);
+    } catch (error) {
+      console.error("Error importing history:", error);
+      Spicetify.showNotification("Failed to import history", true);
+      reportContainer.innerHTML = `<p>Import failed, nothing was imported: ${escapeHtml(error instanceof Error ? error.message : String(error))}</p>`;
+    } finally {
+      previewButton.disabled = false;
+    }
+  });
+
+  Spicetify.PopupModal.display({
+    title: "Import History",
+    content: importHistoryModal,
+  });
+
+  setTimeout(() => {
+    document.querySelector(".main-trackCreditsModal-container")?.classList.add("importHistoryModalContainer");
+  }, 100);
+};
@@ -0,0 +1,197 @@
+/**
+ * importer.ts
+ *
+ * This module reads history files and imports them into IndexedDB.
+ * JSON and JSON Lines files exported by this app, backup files (see `backups.ts`) and Spotify's streaming history exports (see `spotifyImport.ts`) are supported,
+ * and several files can be imported at once.
+ * An import runs in two steps: a dry run reports how many records are new, duplicate or invalid, and the import itself then writes them with the chosen conflict policy.
+ * The files are read once for both steps, so Spotify's records are only matched to tracks once.
+ * Invalid records are reported one by one instead of failing the whole import.
+ */
+
+import { Song, MediaType, DailyAggregate, ImportPolicy, ImportCounts, importSongsToDB, importAggregatesToDB } from "./db";
+import { convertSpotifyHistory, detectSpotifyFormat, SpotifyRecord } from "./spotifyImport";
+import { BACKUP_FORMAT } from "./backups";
+
+/**
+ * A record of an imported file that failed validation.
+ */
+export interface ImportRecordError {
+    /** The name of the file the record comes from. */
+    file: string;
+    /** The position of the record in the file, starting at 1. */
+    record: number;
+    message: string;
+}
+
+/**
+ * The records read from history files.
+ */
+export interface HistoryFilesContent {
+    /** The valid records, as plays. */
+    songs: Song[];
+    /** The valid rolled up plays of backup files. */
+    aggregates: DailyAggregate[];
+    /** Records in the files. */
+    total: number;
+    errors: ImportRecordError[];
+}
+
+/**
+ * The outcome of an import, or of its dry run.
+ */
+export interface ImportReport extends ImportCounts {
+    /** Days of tracks of rolled up plays not in the history yet. */
+    rolledUp: number;
+    /** Records in the files. */
+    total: number;
+    invalid: number;
+    errors: ImportRecordError[];
+}
+
+/**
+ * The conflict policies offered when importing, with their descriptions.
+ */
+export const IMPORT_POLICIES: { policy: ImportPolicy; label: string }[] = [
+    { policy: "merge", label: "Merge plays already in history" },
+    { policy: "skip", label: "Skip plays already in history" },
+    { policy: "newest", label: "Keep the newest data" },
+    { policy: "overwrite", label: "Overwrite with imported data" },
+];
+
+const MEDIA_TYPES: MediaType[] = ["track", "episode", "chapter"];
+
+/**
+ * Checks whether an object conforms to the Song interface.
+ * Records exported before play events, listened time, media types and sources were tracked have no "playId", "playedMs", "skipped", "mediaType" or "context", which is allowed.
+ *
+ * @param song - The object to validate.
+ * @returns A message describing the first problem, or null if the object is a valid Song.
+ */
+export const validateSong = (song: any): string | null => {
+    if (typeof song !== "object" || song === null) return "not an object";
+    if (song.playId !== undefined && typeof song.playId !== "string") return "invalid playId";
+    if (song.playedMs !== undefined && typeof song.playedMs !== "number") return "invalid playedMs";
+    if (song.skipped !== undefined && typeof song.skipped !== "boolean") return "invalid skipped";
+    if (song.mediaType !== undefined && !MEDIA_TYPES.includes(song.mediaType)) return "invalid mediaType";
+    if (song.position !== undefined && typeof song.position !== "number") return "invalid position";
+    if (song.context !== undefined && (typeof song.context?.uri !== "string" || typeof song.context?.type !== "string")) return "invalid context";
+    if (typeof song.uid !== "string") return "missing or invalid uid";
+    if (typeof song.uri !== "string") return "missing or invalid uri";
+    if (typeof song.name !== "string") return "missing or invalid name";
+    if (typeof song.duration?.milliseconds !== "number") return "missing or invalid duration";
+    if (typeof song.album?.name !== "string" || typeof song.album?.uri !== "string") return "missing or invalid album";
+    if (!Array.isArray(song.artists) || !song.artists.every(
+        (artist: any) => typeof artist?.name === "string" && typeof artist?.uri === "string"
+    )) return "missing or invalid artists";
+    if (typeof song.listenDate !== "number" || !isFinite(song.listenDate)) return "missing or invalid listenDate";
+    if (!Array.isArray(song.images) || !song.images.every(
+        (image: any) => typeof image?.label === "string" && typeof image?.url === "string"
+    )) return "missing or invalid images";
+    if (typeof song.metadata !== "object" || song.metadata === null) return "missing or invalid metadata";
+    return null;
+};
+
+/**
+ * Checks whether an object is the rolled up plays of a track on a day, as stored in backup files.
+ *
+ * @param aggregate - The object to validate.
+ * @returns A message describing the first problem, or null if the object is valid.
+ */
+export const validateAggregate = (aggregate: any): string | null => {
+    if (typeof aggregate !== "object" || aggregate === null) return "not an object";
+    if (typeof aggregate.uri !== "string" || typeof aggregate.day !== "string") return "missing or invalid uri or day";
+    if (aggregate.id !== `${aggregate.day}|${aggregate.uri}`) return "missing or invalid id";
+    if (typeof aggregate.dayStart !== "number" || !isFinite(aggregate.dayStart)) return "missing or invalid dayStart";
+    if (typeof aggregate.track?.name !== "string" || !Array.isArray(aggregate.track.artists)) return "missing or invalid track";
+    if (![aggregate.plays, aggregate.skips, aggregate.playedMs].every((value) => typeof value === "number" && value >= 0)) return "missing or invalid counts";
+    return null;
+};
+
+/**
+ * Reads and validates the records of history files.
+ * Records of files written by `exportHistory` without a listened time are assumed to have been listened to in full, and records without a media type to be music tracks.
+ * Records of Spotify's exports are converted into plays, and the rolled up plays of backup files are read along with their plays.
+ *
+ * @param db - The open IndexedDB database instance, used to complete Spotify's records.
+ * @param files - The files containing user's history.
+ * @returns A promise that resolves to the valid records, the number of records and the errors of the invalid ones.
+ * @throws If a file is neither a JSON array nor a backup file.
+ */
+export const readHistoryFiles = async (db: IDBDatabase, files: File[]): Promise<HistoryFilesContent> => {
+    const songs: Song[] = [];
+    const aggregates: DailyAggregate[] = [];
+    const errors: ImportRecordError[] = [];
+    const spotifyRecords: SpotifyRecord[] = [];
+    let total = 0;
+
+    for (const file of files) {
+        let history: unknown;
+        try {
+            const text = await file.text();
+            // JSON Lines exports hold one song per line.
+            history = file.name.endsWith(".jsonl")
+                ? text.split("\n").filter((line) => line.trim()).map((line) => JSON.parse(line))
+                : JSON.parse(text);
+        } catch (error) {
+            throw new Error(`${file.name} is not a JSON file`);
+        }
+        if ((history as any)?.format === BACKUP_FORMAT && Array.isArray((history as any).songs) && Array.isArray((history as any).aggregates)) {
+            const backupAggregates: unknown[] = (history as any).aggregates;
+            total += backupAggregates.length;
+            backupAggregates.forEach((aggregate, index) => {
+                const error = validateAggregate(aggregate);
+                if (error) {
+                    errors.push({ file: file.name, record: index + 1, message: `rolled up plays: ${error}` });
+                } else {
+                    aggregates.push(aggregate as DailyAggregate);
+                }
+            });
+            history = (history as any).songs;
+        }
+        if (!Array.isArray(history)) {
+            throw new Error(`${file.name} does not contain a list of songs`);
+        }
+        total += history.length;
+
+        history.forEach((song: any, index: number) => {
+            if (detectSpotifyFormat(song)) {
+                spotifyRecords.push({ file: file.name, record: index + 1, value: song });
+                return;
+            }
+            const error = validateSong(song);
+            if (error) {
+                errors.push({ file: file.name, record: index + 1, message: error });
+                return;
+            }
+            songs.push({
+                ...song,
+                playedMs: song.playedMs ?? song.duration.milliseconds,
+                skipped: song.skipped ?? false,
+                mediaType: song.mediaType ?? "track",
+            });
+        });
+    }
+
+    if (spotifyRecords.length > 0) {
+        const converted = await convertSpotifyHistory(db, spotifyRecords);
+        songs.push(...converted.songs);
+        errors.push(...converted.errors);
+    }
+    return { songs, aggregates, total, errors };
+};
+
+/**
+ * Imports the records read from history files, or only reports what importing them would do.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param content - The records read by `readHistoryFiles`.
+ * @param policy - How to treat plays already in the history.
+ * @param dryRun - Whether to only report what the import would do.
+ * @returns A promise that resolves to the report once the import has completed.
+ */
+export const importHistoryFiles = async (db: IDBDatabase, { songs, aggregates, total, errors }: HistoryFilesContent, policy: ImportPolicy, dryRun: boolean = false): Promise<ImportReport> => {
+    const counts = await importSongsToDB(db, songs, policy, dryRun);
+    const rolledUp = aggregates.length > 0 ? await importAggregatesToDB(db, aggregates, dryRun) : 0;
+    return { ...counts, rolledUp, total, invalid: errors.length, errors };
+};
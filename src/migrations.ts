@@ -0,0 +1,245 @@
+/**
+ * migrations.ts
+ *
+ * This module holds the schema migrations of the Spicetify History database.
+ * Each migration upgrades the database from the previous version to its own version, inside the "versionchange" transaction opened by `openDB`.
+ * Migrations are applied in order, so a database at any older version is brought up to date one step at a time.
+ *
+ * To change the schema, append a new migration with the next version number. Never edit a migration that has already shipped.
+ */
+
+/**
+ * A single upgrade step of the database schema.
+ */
+export interface Migration {
+    /** The version this step upgrades the database to. */
+    version: number;
+    /** A short description shown to the user while the step runs. */
+    description: string;
+    /**
+     * Applies the step. Stores and indexes can be created or deleted through `db`, and records read or rewritten through `transaction`.
+     * A step that reads records returns a promise resolving once it is done, so the next step sees its writes.
+     * It must only await IndexedDB requests, as the transaction commits as soon as it has no pending requests.
+     */
+    upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void | Promise<void>;
+}
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ *
+ * @param request - The request to wait for.
+ * @returns A promise that resolves to the result of the request.
+ */
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Rewrites every record of an object store with a cursor.
+ * Records for which `rewrite` returns null are deleted, and records for which it returns undefined are left untouched.
+ *
+ * @param transaction - The "versionchange" transaction of the migration.
+ * @param storeName - The name of the object store to rewrite.
+ * @param rewrite - A function returning the new record.
+ * @returns A promise that resolves once every record has been visited.
+ */
+export const rewriteRecords = (
+    transaction: IDBTransaction,
+    storeName: string,
+    rewrite: (record: any) => any | null | undefined
+): Promise<void> => {
+    return new Promise<void>((resolve, reject) => {
+        const request = transaction.objectStore(storeName).openCursor();
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve();
+                return;
+            }
+            const record = rewrite(cursor.value);
+            if (record === null) {
+                cursor.delete();
+            } else if (record !== undefined) {
+                cursor.update(record);
+            }
+            cursor.continue();
+        };
+    });
+};
+
+/**
+ * The ordered list of schema migrations.
+ */
+export const migrations: Migration[] = [
+    {
+        version: 1,
+        description: "Create the history store",
+        upgrade: (db) => {
+            const objectStore = db.createObjectStore("history", { keyPath: "uid" });
+            objectStore.createIndex("name", "name", { unique: false });
+            objectStore.createIndex("uri", "uri", { unique: true });
+            objectStore.createIndex("listenDate", "listenDate", { unique: false });
+        },
+    },
+    {
+        version: 2,
+        description: "Split history into tracks and play events",
+        upgrade: async (db, transaction) => {
+            const trackStore = db.createObjectStore("tracks", { keyPath: "uri" });
+            trackStore.createIndex("name", "name", { unique: false });
+            const playStore = db.createObjectStore("plays", { keyPath: "id" });
+            playStore.createIndex("uri", "uri", { unique: false });
+            playStore.createIndex("listenDate", "listenDate", { unique: false });
+
+            const history = await requestResult(transaction.objectStore("history").getAll());
+            for (const { uid, listenDate, ...track } of history) {
+                trackStore.put(track);
+                playStore.put({ id: `${listenDate}|${track.uri}`, uri: track.uri, uid, listenDate });
+            }
+            db.deleteObjectStore("history");
+        },
+    },
+    {
+        version: 3,
+        description: "Add listened time and skip flag to plays",
+        upgrade: async (db, transaction) => {
+            // Plays recorded before listened time was tracked are assumed to have been listened to in full.
+            const durations = new Map<string, number>();
+            for (const track of await requestResult(transaction.objectStore("tracks").getAll())) {
+                durations.set(track.uri, track.duration?.milliseconds ?? 0);
+            }
+            await rewriteRecords(transaction, "plays", (play) => ({
+                ...play,
+                playedMs: play.playedMs ?? durations.get(play.uri) ?? 0,
+                skipped: play.skipped ?? false,
+            }));
+        },
+    },
+    {
+        version: 4,
+        description: "Index plays by title, album and duration",
+        upgrade: async (db, transaction) => {
+            const tracks = new Map<string, any>();
+            for (const track of await requestResult(transaction.objectStore("tracks").getAll())) {
+                tracks.set(track.uri, track);
+            }
+            await rewriteRecords(transaction, "plays", (play) => ({
+                ...play,
+                name: tracks.get(play.uri)?.name ?? "",
+                albumName: tracks.get(play.uri)?.album?.name ?? "",
+                durationMs: tracks.get(play.uri)?.duration?.milliseconds ?? 0,
+            }));
+            const playStore = transaction.objectStore("plays");
+            playStore.createIndex("name", "name", { unique: false });
+            playStore.createIndex("album", "albumName", { unique: false });
+            playStore.createIndex("duration", "durationMs", { unique: false });
+        },
+    },
+    {
+        version: 5,
+        description: "Create the scrobble queue",
+        upgrade: (db) => {
+            const scrobbleStore = db.createObjectStore("scrobbles", { keyPath: "playId" });
+            scrobbleStore.createIndex("nextAttempt", "nextAttempt", { unique: false });
+        },
+    },
+    {
+        version: 6,
+        description: "Record the media type of tracks",
+        upgrade: (db, transaction) => rewriteRecords(transaction, "tracks", (track) =>
+            track.mediaType ? undefined : { ...track, mediaType: "track" }
+        ),
+    },
+    {
+        version: 7,
+        description: "Create the trash",
+        upgrade: (db) => {
+            const trashStore = db.createObjectStore("trash", { keyPath: "id" });
+            trashStore.createIndex("deletedAt", "deletedAt", { unique: false });
+            trashStore.createIndex("batchId", "batchId", { unique: false });
+        },
+    },
+    {
+        version: 8,
+        description: "Create the daily play aggregates",
+        upgrade: (db) => {
+            const aggregateStore = db.createObjectStore("aggregates", { keyPath: "id" });
+            aggregateStore.createIndex("dayStart", "dayStart", { unique: false });
+            aggregateStore.createIndex("uri", "uri", { unique: false });
+        },
+    },
+    {
+        version: 9,
+        description: "Create the restore points",
+        upgrade: (db) => {
+            db.createObjectStore("restorePoints", { keyPath: "id" });
+            db.createObjectStore("restorePointData", { keyPath: "id" });
+        },
+    },
+    {
+        version: 10,
+        description: "Record changes for sync",
+        upgrade: async (db, transaction) => {
+            const changeStore = db.createObjectStore("changes", { keyPath: "id" });
+            // Existing plays count as changed when they were played, and plays in the trash as deleted when they were deleted.
+            const plays = await requestResult(transaction.objectStore("plays").getAll());
+            const trash = await requestResult(transaction.objectStore("trash").getAll());
+            for (const play of plays) {
+                changeStore.put({ id: play.id, changedAt: play.listenDate, deleted: false });
+            }
+            for (const entry of trash) {
+                changeStore.put({ id: entry.id, changedAt: entry.deletedAt, deleted: true });
+            }
+        },
+    },
+];
+
+/**
+ * The version of the newest schema known to this version of the app.
+ */
+export const DB_VERSION: number = migrations[migrations.length - 1].version;
+
+/**
+ * Applies every migration between `oldVersion` and `newVersion`, one step after the other.
+ * Progress is reported with `Spicetify.showNotification` when an existing database is upgraded.
+ * A failing step aborts the whole transaction, leaving the database at `oldVersion`.
+ *
+ * @param db - The database being upgraded.
+ * @param transaction - The "versionchange" transaction of the upgrade.
+ * @param oldVersion - The version the database is at.
+ * @param newVersion - The version the database is upgraded to.
+ */
+export const runMigrations = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number, newVersion: number): void => {
+    const pending = migrations.filter((migration) => migration.version > oldVersion && migration.version <= newVersion);
+    const notify = oldVersion > 0;
+
+    transaction.addEventListener("complete", () => {
+        console.log(`Database upgraded from version ${oldVersion} to ${newVersion}`);
+        if (notify) Spicetify.showNotification("History upgraded");
+    });
+    transaction.addEventListener("error", (event: Event) => {
+        const error = (event.target as IDBRequest).error;
+        console.error("Database upgrade failed:", error);
+        Spicetify.showNotification(`Failed to upgrade history: ${error?.message || "Unknown error"}`, true);
+    });
+
+    const runSteps = async () => {
+        for (const migration of pending) {
+            try {
+                console.log(`Migrating database to version ${migration.version}: ${migration.description}`);
+                if (notify) Spicetify.showNotification(`Upgrading history: ${migration.description}...`);
+                await migration.upgrade(db, transaction);
+            } catch (error) {
+                console.error(`Migration to version ${migration.version} failed:`, error);
+                Spicetify.showNotification(`Failed to upgrade history to version ${migration.version}`, true);
+                transaction.abort();
+                return;
+            }
+        }
+    };
+    runSteps();
+};
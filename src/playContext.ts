@@ -0,0 +1,157 @@
+/**
+ * playContext.ts
+ *
+ * This module reads where a play comes from: the playlist, album, artist, show, radio station, search or Liked Songs the player plays,
+ * along with the shuffle and repeat state and whether the track was picked by autoplay.
+ * The extension reads it when a play starts; the app shows it in the "Played from" column and opens the source from there.
+ */
+
+import { ContextType, PlayContext } from "./db";
+
+/**
+ * The label of each context type, as shown in the app.
+ */
+export const CONTEXT_TYPE_LABELS: Record<ContextType, string> = {
+    playlist: "Playlist",
+    album: "Album",
+    artist: "Artist",
+    show: "Podcast",
+    audiobook: "Audiobook",
+    collection: "Library",
+    radio: "Radio",
+    search: "Search",
+    other: "Other",
+};
+
+// Names read from the Spotify Web API, so a playlist is looked up once rather than for each of its tracks.
+const contextNames = new Map<string, string | undefined>();
+
+/**
+ * Reads the type of a context from its URI.
+ *
+ * @param uri - The context URI, e.g. "spotify:playlist:..." or "spotify:user:...:collection".
+ * @returns The context type.
+ */
+export const getContextType = (uri: string): ContextType => {
+    const parts = uri.split(":");
+    if (parts.includes("station") || parts.includes("radio")) return "radio";
+    if (parts.includes("collection")) return "collection";
+    if (parts.includes("playlist")) return "playlist";
+    const type = parts[1];
+    if (type === "album" || type === "artist" || type === "show" || type === "audiobook" || type === "search") return type;
+    return "other";
+};
+
+/**
+ * Reads the search terms of a search context URI, e.g. "spotify:search:daft+punk".
+ */
+const getSearchTerms = (uri: string): string => decodeURIComponent(uri.split(":").slice(2).join(":").replace(/\+/g, " "));
+
+/**
+ * Reads the name of a context from the Spotify Web API.
+ *
+ * @param uri - The URI of a playlist, album, artist, show or audiobook.
+ * @returns A promise that resolves to the name, or undefined if it could not be read.
+ */
+const fetchContextName = async (uri: string): Promise<string | undefined> => {
+    if (contextNames.has(uri)) return contextNames.get(uri);
+    const type = getContextType(uri);
+    const id = uri.split(":").pop();
+    let name: string | undefined;
+    try {
+        const item = await Spicetify.CosmosAsync.get(`https://api.spotify.com/v1/${type}s/${id}`);
+        name = typeof item?.name === "string" ? item.name : undefined;
+    } catch (error) {
+        console.error("Failed to read the name of", uri, error);
+    }
+    contextNames.set(uri, name);
+    return name;
+};
+
+/**
+ * Reads the name of a context, preferring the description the player keeps and falling back to the Web API.
+ *
+ * @param uri - The context URI.
+ * @param description - The description of the context in the player state, if any.
+ * @returns A promise that resolves to the name, or undefined if it could not be read.
+ */
+const resolveContextName = async (uri: string, description?: string): Promise<string | undefined> => {
+    if (description) return description;
+    switch (getContextType(uri)) {
+        case "search":
+            return getSearchTerms(uri);
+        case "collection":
+            return uri.includes("your-episodes") ? "Your Episodes" : "Liked Songs";
+        case "playlist":
+        case "album":
+        case "artist":
+        case "show":
+        case "audiobook":
+            return fetchContextName(uri);
+        default:
+            return undefined;
+    }
+};
+
+/**
+ * Reads the context of the item the player has just started.
+ *
+ * @param item - The playing item.
+ * @returns A promise that resolves to the context of the play.
+ */
+export const readPlayContext = async (item: Spicetify.PlayerTrack): Promise<PlayContext> => {
+    const data = Spicetify.Player.data;
+    const uri = data?.context?.uri ?? "";
+    const metadata = (data?.context?.metadata ?? {}) as Record<string, string | undefined>;
+    const autoplay = item.provider === "autoplay" || (item.metadata as Record<string, string | undefined>)?.["autoplay.is_autoplay"] === "true";
+    const name = uri ? await resolveContextName(uri, metadata.context_description) : undefined;
+    return {
+        uri,
+        type: uri ? getContextType(uri) : "other",
+        ...(name !== undefined && { name }),
+        shuffle: data?.shuffle ?? Spicetify.Player.getShuffle(),
+        repeat: data?.repeat ?? Spicetify.Player.getRepeat(),
+        autoplay,
+    };
+};
+
+/**
+ * Reads the app path of a context, to open it from the history.
+ *
+ * @param context - The context of a play.
+ * @returns The path, or undefined for sources that have no page, such as radio stations.
+ */
+export const getContextPath = (context: PlayContext): string | undefined => {
+    if (!context.uri) return undefined;
+    switch (context.type) {
+        case "playlist":
+        case "album":
+        case "artist":
+        case "show":
+        case "audiobook":
+            return `/${context.type}/${context.uri.split(":").pop()}`;
+        case "collection":
+            return context.uri.includes("your-episodes") ? "/collection/episodes" : "/collection/tracks";
+        case "search":
+            return `/search/${encodeURIComponent(getSearchTerms(context.uri))}`;
+        default:
+            return undefined;
+    }
+};
+
+/**
+ * Describes how the player was set to play, e.g. "Shuffle, repeat all, autoplay".
+ *
+ * @param context - The context of a play.
+ * @returns The description, or an empty string when nothing was set.
+ */
+export const describePlayMode = (context: PlayContext): string => {
+    const modes = [
+        context.shuffle && "shuffle",
+        context.repeat === 1 && "repeat all",
+        context.repeat === 2 && "repeat one",
+        context.autoplay && "autoplay",
+    ].filter(Boolean) as string[];
+    const description = modes.join(", ");
+    return description && description[0].toUpperCase() + description.slice(1);
+};
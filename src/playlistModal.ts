@@ -0,0 +1,121 @@
+/**
+ * playlistModal.ts
+ *
+ * The "Save as Playlist" modal. The user turns the listed plays into a new playlist, or appends them to one of their playlists.
+ */
+
+import { toDateKey } from "./db";
+import { PLAYLIST_ORDERS, PlaylistOrder, PlaylistPlay, selectPlaylistTracks, getEditablePlaylists, createPlaylist, appendToPlaylist } from "./playlists";
+
+/**
+ * Displays the "Save as Playlist" modal.
+ *
+ * @param getSongs - Reads the plays to turn into a playlist.
+ * @param description - What the plays are, e.g. "the current list", shown to the user.
+ */
+export const showPlaylistModal = (getSongs: () => Promise<PlaylistPlay[]>, description: string): void => {
+  const playlistModal = document.createElement("div");
+  playlistModal.className = "playlistModal";
+  playlistModal.innerHTML = `
+    <p>Save the tracks of ${description} as a playlist.</p>
+    <label class="playlistTarget">
+      <input type="radio" name="playlistTarget" value="new" checked />
+      New playlist
+      <input type="text" class="playlistName" />
+    </label>
+    <label class="playlistTarget">
+      <input type="radio" name="playlistTarget" value="existing" />
+      Add to
+      <select class="playlistSelect" disabled>
+        <option value="">Loading playlists...</option>
+      </select>
+    </label>
+    <select class="playlistOrder">
+      ${PLAYLIST_ORDERS.map(({ order, label }) => `<option value="${order}">${label}</option>`).join("")}
+    </select>
+    <label class="playlistOption">
+      <input type="checkbox" class="playlistDedupe" checked />
+      Add each track once
+    </label>
+    <label class="playlistOption">
+      At most
+      <input type="number" class="playlistLimit" min="1" placeholder="all" />
+      tracks
+    </label>
+    <button class="importButton playlistSaveButton">Save</button>
+  `;
+
+  const nameInput = playlistModal.querySelector(".playlistName") as HTMLInputElement;
+  const playlistSelect = playlistModal.querySelector(".playlistSelect") as HTMLSelectElement;
+  const orderSelect = playlistModal.querySelector(".playlistOrder") as HTMLSelectElement;
+  const dedupeInput = playlistModal.querySelector(".playlistDedupe") as HTMLInputElement;
+  const limitInput = playlistModal.querySelector(".playlistLimit") as HTMLInputElement;
+  const saveButton = playlistModal.querySelector(".playlistSaveButton") as HTMLButtonElement;
+
+  nameInput.value = `History ${toDateKey(Date.now())}`;
+
+  getEditablePlaylists()
+    .then((playlists) => {
+      if (playlists.length === 0) {
+        playlistSelect.innerHTML = `<option value="">No playlists</option>`;
+        return;
+      }
+      playlistSelect.replaceChildren(...playlists.map((playlist) => new Option(playlist.name, playlist.uri)));
+      playlistSelect.disabled = false;
+    })
+    .catch((error) => {
+      console.error("Failed to fetch playlists:", error);
+      playlistSelect.innerHTML = `<option value="">Could not load playlists</option>`;
+    });
+
+  saveButton.addEventListener("click", async () => {
+    const target = (playlistModal.querySelector("input[name=playlistTarget]:checked") as HTMLInputElement).value;
+    if (target === "new" && !nameInput.value.trim()) {
+      Spicetify.showNotification("Please enter a playlist name");
+      return;
+    }
+    if (target === "existing" && !playlistSelect.value) {
+      Spicetify.showNotification("Please select a playlist");
+      return;
+    }
+
+    saveButton.disabled = true;
+    try {
+      const limit = parseInt(limitInput.value);
+      const uris = selectPlaylistTracks(await getSongs(), {
+        order: orderSelect.value as PlaylistOrder,
+        dedupe: dedupeInput.checked,
+        limit: limit > 0 ? limit : undefined,
+      });
+      if (uris.length === 0) {
+        Spicetify.showNotification("No tracks to add");
+        return;
+      }
+
+      if (target === "new") {
+        const uri = await createPlaylist(nameInput.value.trim(), uris);
+        Spicetify.showNotification(`Playlist created with ${uris.length} tracks`);
+        Spicetify.PopupModal.hide();
+        Spicetify.Platform.History.push(`/playlist/${uri.split(":")[2]}`);
+      } else {
+        const added = await appendToPlaylist(playlistSelect.value, uris, dedupeInput.checked);
+        Spicetify.showNotification(added ? `Added ${added} tracks to the playlist` : "Every track is already in the playlist");
+        Spicetify.PopupModal.hide();
+      }
+    } catch (error) {
+      console.error("Failed to save playlist:", error);
+      Spicetify.showNotification("Failed to save playlist", true);
+    } finally {
+      saveButton.disabled = false;
+    }
+  });
+
+  Spicetify.PopupModal.display({
+    title: "Save as Playlist",
+    content: playlistModal,
+  });
+
+  setTimeout(() => {
+    document.querySelector(".main-trackCreditsModal-container")?.classList.add("playlistModalContainer");
+  }, 100);
+};
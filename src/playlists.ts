@@ -0,0 +1,188 @@
+/**
+ * playlists.ts
+ *
+ * This module turns a set of plays into a Spotify playlist, either a new one or one of the user's existing playlists.
+ * Playlists are read and written through the Spotify Web API with `Spicetify.CosmosAsync`, which authenticates the requests as the user.
+ */
+
+import { Song } from "./db";
+
+export type PlaylistOrder = "date-desc" | "date-asc" | "plays";
+
+/**
+ * The fields of a play a playlist is made from, so tracks known only by their play count can be saved too.
+ */
+export type PlaylistPlay = Pick<Song, "uri" | "listenDate">;
+
+/**
+ * The orders offered for the tracks of the playlist, with their descriptions.
+ */
+export const PLAYLIST_ORDERS: { order: PlaylistOrder; label: string }[] = [
+    { order: "date-desc", label: "Most recently played first" },
+    { order: "date-asc", label: "Oldest play first" },
+    { order: "plays", label: "Most played first" },
+];
+
+/**
+ * How the plays are turned into the tracks of the playlist.
+ */
+export interface PlaylistOptions {
+    order: PlaylistOrder;
+    /** Whether each track is added once, instead of once per play. */
+    dedupe: boolean;
+    /** The maximum number of tracks, or undefined for all of them. */
+    limit?: number;
+}
+
+/**
+ * A playlist the user can add tracks to.
+ */
+export interface PlaylistSummary {
+    uri: string;
+    name: string;
+}
+
+/**
+ * A page of a paginated Web API response.
+ */
+interface WebApiPage<T> {
+    items?: T[];
+    /** The URL of the next page, or null on the last one. */
+    next?: string | null;
+}
+
+const WEB_API = "https://api.spotify.com/v1";
+
+// Number of tracks the Web API adds or returns per request.
+const WEB_API_BATCH_SIZE = 100;
+
+/**
+ * Checks whether a track can be added to a playlist. Local files and plays without a Spotify URI cannot.
+ */
+const isPlaylistTrack = (uri: string): boolean => uri.startsWith("spotify:track:") || uri.startsWith("spotify:episode:");
+
+/**
+ * Picks the tracks of a playlist from a set of plays.
+ * Play counts are counted within the given plays, so a set filtered to a month gives the top tracks of that month.
+ *
+ * @param songs - The plays.
+ * @param options - The order, deduplication and limit.
+ * @returns The URIs of the tracks, in playlist order.
+ */
+export const selectPlaylistTracks = (songs: PlaylistPlay[], options: PlaylistOptions): string[] => {
+    const plays = songs.filter((song) => isPlaylistTrack(song.uri));
+    const counts = new Map<string, number>();
+    const lastPlayed = new Map<string, number>();
+    for (const song of plays) {
+        counts.set(song.uri, (counts.get(song.uri) ?? 0) + 1);
+        lastPlayed.set(song.uri, Math.max(lastPlayed.get(song.uri) ?? 0, song.listenDate));
+    }
+
+    const sorted = [...plays].sort((a, b) => {
+        if (options.order === "plays" && a.uri !== b.uri) {
+            const difference = (counts.get(b.uri) ?? 0) - (counts.get(a.uri) ?? 0);
+            if (difference !== 0) return difference;
+            // Tracks played as often keep their plays together, most recently played track first.
+            const recency = (lastPlayed.get(b.uri) ?? 0) - (lastPlayed.get(a.uri) ?? 0);
+            if (recency !== 0) return recency;
+            return a.uri < b.uri ? -1 : 1;
+        }
+        return options.order === "date-asc" ? a.listenDate - b.listenDate : b.listenDate - a.listenDate;
+    });
+
+    let uris = sorted.map((song) => song.uri);
+    if (options.dedupe) uris = [...new Set(uris)];
+    return options.limit !== undefined ? uris.slice(0, options.limit) : uris;
+};
+
+/**
+ * Reads the playlists the user owns or collaborates on.
+ *
+ * @returns A promise that resolves to the playlists, in the order of the user's library.
+ */
+export const getEditablePlaylists = async (): Promise<PlaylistSummary[]> => {
+    const user = await Spicetify.CosmosAsync.get(`${WEB_API}/me`);
+    const playlists: PlaylistSummary[] = [];
+    let url: string | null = `${WEB_API}/me/playlists?limit=50`;
+    while (url) {
+        const page: WebApiPage<{ uri: string; name: string; collaborative?: boolean; owner?: { id: string } } | null> | null =
+            await Spicetify.CosmosAsync.get(url);
+        for (const playlist of page?.items ?? []) {
+            if (playlist && (playlist.owner?.id === user?.id || playlist.collaborative)) {
+                playlists.push({ uri: playlist.uri, name: playlist.name });
+            }
+        }
+        url = page?.next ?? null;
+    }
+    return playlists;
+};
+
+/**
+ * Reads the URIs of the tracks of a playlist.
+ *
+ * @param playlistId - The id of the playlist.
+ * @returns A promise that resolves to the URIs of its tracks.
+ */
+const getPlaylistTracks = async (playlistId: string): Promise<Set<string>> => {
+    const uris = new Set<string>();
+    let url: string | null = `${WEB_API}/playlists/${playlistId}/tracks?fields=next,items(track(uri))&limit=${WEB_API_BATCH_SIZE}`;
+    while (url) {
+        const page: WebApiPage<{ track?: { uri: string } | null } | null> | null = await Spicetify.CosmosAsync.get(url);
+        for (const item of page?.items ?? []) {
+            if (item?.track?.uri) uris.add(item.track.uri);
+        }
+        url = page?.next ?? null;
+    }
+    return uris;
+};
+
+/**
+ * Adds tracks at the end of a playlist.
+ *
+ * @param playlistId - The id of the playlist.
+ * @param uris - The URIs of the tracks, in order.
+ */
+const addTracks = async (playlistId: string, uris: string[]): Promise<void> => {
+    for (let start = 0; start < uris.length; start += WEB_API_BATCH_SIZE) {
+        await Spicetify.CosmosAsync.post(`${WEB_API}/playlists/${playlistId}/tracks`, {
+            uris: uris.slice(start, start + WEB_API_BATCH_SIZE),
+        });
+    }
+};
+
+/**
+ * Creates a private playlist with the given tracks.
+ *
+ * @param name - The name of the playlist.
+ * @param uris - The URIs of the tracks, in order.
+ * @returns A promise that resolves to the URI of the new playlist.
+ */
+export const createPlaylist = async (name: string, uris: string[]): Promise<string> => {
+    const playlist = await Spicetify.CosmosAsync.post(`${WEB_API}/me/playlists`, {
+        name,
+        description: "Created from the listening history",
+        public: false,
+    });
+    if (!playlist?.id) throw new Error("The playlist could not be created");
+    await addTracks(playlist.id, uris);
+    return playlist.uri;
+};
+
+/**
+ * Appends tracks to an existing playlist.
+ *
+ * @param playlistUri - The URI of the playlist.
+ * @param uris - The URIs of the tracks, in order.
+ * @param dedupe - Whether to leave out the tracks already in the playlist.
+ * @returns A promise that resolves to the number of tracks added.
+ */
+export const appendToPlaylist = async (playlistUri: string, uris: string[], dedupe: boolean): Promise<number> => {
+    const playlistId = playlistUri.split(":")[2];
+    let added = uris;
+    if (dedupe) {
+        const existing = await getPlaylistTracks(playlistId);
+        added = uris.filter((uri) => !existing.has(uri));
+    }
+    await addTracks(playlistId, added);
+    return added.length;
+};
@@ -0,0 +1,103 @@
+/**
+ * rediscover.ts
+ *
+ * This module digs past listening out of the history: what was played on today's date in previous years,
+ * and forgotten favorites, the tracks played often that have not been played for months.
+ *
+ * The forgotten favorites settings are stored in Spicetify.LocalStorage, like the other settings of the app.
+ */
+
+import { RankedItem, getStatsFromDB } from "./db";
+
+/**
+ * What counts as a forgotten favorite.
+ */
+export interface ForgottenFavoritesConfig {
+    /** The number of months a track has not been played for. */
+    months: number;
+    /** The number of plays a track needs to count as a favorite. */
+    minPlays: number;
+}
+
+/**
+ * The tracks played on today's date in a previous year.
+ */
+export interface OnThisDay {
+    year: number;
+    from: number;
+    to: number;
+    topTracks: RankedItem[];
+}
+
+const FORGOTTEN_FAVORITES_KEY = "spicetify-history:forgotten-favorites";
+
+export const DEFAULT_FORGOTTEN_FAVORITES_CONFIG: ForgottenFavoritesConfig = { months: 6, minPlays: 10 };
+
+// Number of previous years looked at for "On this day".
+const ON_THIS_DAY_YEARS = 10;
+
+// Number of tracks listed for each year.
+const ON_THIS_DAY_LIMIT = 10;
+
+/**
+ * Reads what counts as a forgotten favorite, falling back to the defaults for missing or invalid values.
+ *
+ * @returns The current settings.
+ */
+export const getForgottenFavoritesConfig = (): ForgottenFavoritesConfig => {
+    try {
+        const stored = JSON.parse(Spicetify.LocalStorage.get(FORGOTTEN_FAVORITES_KEY) || "null");
+        return {
+            months: typeof stored?.months === "number" && stored.months >= 1 ? stored.months : DEFAULT_FORGOTTEN_FAVORITES_CONFIG.months,
+            minPlays: typeof stored?.minPlays === "number" && stored.minPlays >= 1 ? stored.minPlays : DEFAULT_FORGOTTEN_FAVORITES_CONFIG.minPlays,
+        };
+    } catch (error) {
+        console.error("Invalid forgotten favorites settings:", error);
+    }
+    return DEFAULT_FORGOTTEN_FAVORITES_CONFIG;
+};
+
+/**
+ * Stores what counts as a forgotten favorite.
+ *
+ * @param config - The new settings.
+ */
+export const setForgottenFavoritesConfig = (config: ForgottenFavoritesConfig): void => {
+    Spicetify.LocalStorage.set(FORGOTTEN_FAVORITES_KEY, JSON.stringify(config));
+};
+
+/**
+ * Computes the time a number of months before now.
+ *
+ * @param months - The number of months.
+ * @param now - The current time.
+ * @returns The time, at the start of its day.
+ */
+export const monthsAgo = (months: number, now: number = Date.now()): number => {
+    const date = new Date(now);
+    date.setMonth(date.getMonth() - months);
+    return date.setHours(0, 0, 0, 0);
+};
+
+/**
+ * Reads the most played tracks of today's date in each previous year, leaving out the years without plays on that date.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param now - The current time.
+ * @returns A promise that resolves to the years, most recent first.
+ */
+export const getOnThisDay = async (db: IDBDatabase, now: number = Date.now()): Promise<OnThisDay[]> => {
+    const today = new Date(now);
+    const years: OnThisDay[] = [];
+    for (let yearsAgo = 1; yearsAgo <= ON_THIS_DAY_YEARS; yearsAgo++) {
+        const year = today.getFullYear() - yearsAgo;
+        const day = new Date(year, today.getMonth(), today.getDate());
+        // February 29th only exists in leap years.
+        if (day.getMonth() !== today.getMonth()) continue;
+        const from = day.getTime();
+        const to = new Date(year, today.getMonth(), today.getDate() + 1).getTime() - 1;
+        const { topTracks } = await getStatsFromDB(db, from, to, ON_THIS_DAY_LIMIT);
+        if (topTracks.length > 0) years.push({ year, from, to, topTracks });
+    }
+    return years;
+};
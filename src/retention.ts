@@ -0,0 +1,60 @@
+/**
+ * retention.ts
+ *
+ * This module decides how long individual plays are kept. Plays older than the retention are rolled up into per-track daily aggregates,
+ * which keep the statistics and charts complete while taking a fraction of the space.
+ * The retention is applied by the extension on startup, and from the storage panel of the app.
+ *
+ * The retention is stored in Spicetify.LocalStorage so that the app and the extension share it.
+ */
+
+import { rollUpPlaysInDB } from "./db";
+
+const RETENTION_KEY = "spicetify-history:retention-months";
+
+/**
+ * Reads the number of months individual plays are kept.
+ *
+ * @returns The retention in months, or 0 to keep every play.
+ */
+export const getRetentionMonths = (): number => {
+    const months = parseInt(Spicetify.LocalStorage.get(RETENTION_KEY) || "");
+    return !isNaN(months) && months >= 0 ? months : 0;
+};
+
+/**
+ * Stores the number of months individual plays are kept.
+ *
+ * @param months - The retention in months, or 0 to keep every play.
+ */
+export const setRetentionMonths = (months: number): void => {
+    Spicetify.LocalStorage.set(RETENTION_KEY, `${months}`);
+};
+
+/**
+ * Computes the time before which plays are rolled up: the local start of the day the given number of months ago.
+ * Whole days are rolled up, so a day is never split between plays and aggregates.
+ *
+ * @param months - The retention in months.
+ * @param now - The current time.
+ * @returns The cutoff time.
+ */
+export const getRetentionCutoff = (months: number, now: number = Date.now()): number => {
+    const cutoff = new Date(now);
+    cutoff.setMonth(cutoff.getMonth() - months);
+    return cutoff.setHours(0, 0, 0, 0);
+};
+
+/**
+ * Rolls up the plays older than the retention, if one is set.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A promise that resolves to the number of rolled up plays.
+ */
+export const applyRetention = async (db: IDBDatabase): Promise<number> => {
+    const months = getRetentionMonths();
+    if (months === 0) return 0;
+    const count = await rollUpPlaysInDB(db, getRetentionCutoff(months));
+    if (count > 0) console.log(`Rolled up ${count} plays older than ${months} months`);
+    return count;
+};
@@ -0,0 +1,108 @@
+/**
+ * scrobbleModal.ts
+ *
+ * The "Scrobbling" modal. The user sets the ListenBrainz-compatible service plays are submitted to, checks the token, and retries failed submissions.
+ */
+
+import { getScrobbleCountsFromDB, retryFailedScrobblesInDB } from "./db";
+import { getScrobbleConfig, setScrobbleConfig, validateScrobbleToken, requestScrobbleFlush, ScrobbleConfig } from "./scrobbler";
+
+/**
+ * Displays the "Scrobbling" modal.
+ *
+ * @param db - The open IndexedDB database instance.
+ */
+export const showScrobbleModal = (db: IDBDatabase): void => {
+  const config = getScrobbleConfig();
+  const scrobbleModal = document.createElement("div");
+  scrobbleModal.className = "scrobbleModal";
+  scrobbleModal.innerHTML = `
+    <label class="scrobbleEnabled">
+      <input type="checkbox" class="scrobbleEnabledInput" />
+      Submit plays to a ListenBrainz-compatible service
+    </label>
+    <label>
+      API URL
+      <input type="url" class="scrobbleUrlInput" placeholder="https://api.listenbrainz.org" />
+    </label>
+    <label>
+      User token
+      <input type="password" class="scrobbleTokenInput" autocomplete="off" />
+    </label>
+    <div class="importButtons">
+      <button class="importButton scrobbleSaveButton">Save</button>
+      <button class="importButton scrobbleTestButton">Test token</button>
+      <button class="importButton scrobbleRetryButton">Retry failed</button>
+    </div>
+    <p class="scrobbleStatus"></p>
+  `;
+
+  const enabledInput = scrobbleModal.querySelector(".scrobbleEnabledInput") as HTMLInputElement;
+  const urlInput = scrobbleModal.querySelector(".scrobbleUrlInput") as HTMLInputElement;
+  const tokenInput = scrobbleModal.querySelector(".scrobbleTokenInput") as HTMLInputElement;
+  const saveButton = scrobbleModal.querySelector(".scrobbleSaveButton") as HTMLButtonElement;
+  const testButton = scrobbleModal.querySelector(".scrobbleTestButton") as HTMLButtonElement;
+  const retryButton = scrobbleModal.querySelector(".scrobbleRetryButton") as HTMLButtonElement;
+  const statusText = scrobbleModal.querySelector(".scrobbleStatus") as HTMLParagraphElement;
+
+  enabledInput.checked = config.enabled;
+  urlInput.value = config.baseUrl;
+  tokenInput.value = config.token;
+
+  const readConfig = (): ScrobbleConfig => ({
+    enabled: enabledInput.checked,
+    baseUrl: urlInput.value.trim().replace(/\/+$/, "") || config.baseUrl,
+    token: tokenInput.value.trim(),
+  });
+
+  const showCounts = async () => {
+    try {
+      const counts = await getScrobbleCountsFromDB(db);
+      retryButton.disabled = counts.failed === 0;
+      statusText.textContent = `${counts.submitted} submitted, ${counts.pending} waiting, ${counts.failed} failed.`;
+    } catch (error) {
+      console.error("Failed to count scrobbles:", error);
+    }
+  };
+
+  saveButton.addEventListener("click", () => {
+    setScrobbleConfig(readConfig());
+    requestScrobbleFlush();
+    Spicetify.showNotification("Scrobbling settings saved");
+  });
+
+  testButton.addEventListener("click", async () => {
+    testButton.disabled = true;
+    try {
+      const userName = await validateScrobbleToken(readConfig());
+      Spicetify.showNotification(userName ? `Token valid for ${userName}` : "Token valid");
+    } catch (error) {
+      console.error("Failed to validate scrobbling token:", error);
+      Spicetify.showNotification(`Token check failed: ${error instanceof Error ? error.message : error}`, true);
+    } finally {
+      testButton.disabled = false;
+    }
+  });
+
+  retryButton.addEventListener("click", async () => {
+    try {
+      const count = await retryFailedScrobblesInDB(db);
+      requestScrobbleFlush();
+      Spicetify.showNotification(`Retrying ${count} scrobbles`);
+      showCounts();
+    } catch (error) {
+      console.error("Failed to retry scrobbles:", error);
+    }
+  });
+
+  showCounts();
+
+  Spicetify.PopupModal.display({
+    title: "Scrobbling",
+    content: scrobbleModal,
+  });
+
+  setTimeout(() => {
+    document.querySelector(".main-trackCreditsModal-container")?.classList.add("scrobbleModalContainer");
+  }, 100);
+};
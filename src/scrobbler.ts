@@ -0,0 +1,259 @@
+/**
+ * scrobbler.ts
+ *
+ * This module submits plays to a ListenBrainz-compatible scrobbling service.
+ * A "now playing" update is sent when a track starts, and a listen once the play passes the play threshold.
+ * Listens are queued in the "scrobbles" object store before being submitted, so none are lost while the client is offline or the server fails;
+ * failed submissions are retried with an exponential backoff.
+ *
+ * The service settings are stored in Spicetify.LocalStorage so that the app and the extension share them.
+ * Only the extension submits the queue; the app asks it to with `requestScrobbleFlush`.
+ */
+
+import {
+    Song,
+    Listen,
+    ScrobbleEntry,
+    queueScrobbleInDB,
+    getDueScrobblesFromDB,
+    getNextScrobbleAttemptFromDB,
+    updateScrobblesInDB,
+} from "./db";
+
+/**
+ * The settings of the scrobbling service.
+ */
+export interface ScrobbleConfig {
+    enabled: boolean;
+    /** The root URL of the API, e.g. "https://api.listenbrainz.org". */
+    baseUrl: string;
+    /** The user token sent with every request. */
+    token: string;
+}
+
+const SCROBBLE_CONFIG_KEY = "spicetify-history:scrobble";
+
+export const DEFAULT_SCROBBLE_CONFIG: ScrobbleConfig = { enabled: false, baseUrl: "https://api.listenbrainz.org", token: "" };
+
+/**
+ * The window event asking the extension to submit the due entries of the queue now.
+ */
+export const SCROBBLE_FLUSH_EVENT = "spicetify-history:scrobble-flush";
+
+// Number of listens submitted per request.
+const BATCH_SIZE = 50;
+
+// Delay before the first retry of a failed submission, doubled on every further failure.
+const RETRY_BASE_MS = 30 * 1000;
+
+// Longest delay between two retries.
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Reads the scrobbling settings, falling back to the defaults for missing or invalid values.
+ *
+ * @returns The current scrobbling settings.
+ */
+export const getScrobbleConfig = (): ScrobbleConfig => {
+    try {
+        const stored = JSON.parse(Spicetify.LocalStorage.get(SCROBBLE_CONFIG_KEY) || "null");
+        return {
+            enabled: typeof stored?.enabled === "boolean" ? stored.enabled : DEFAULT_SCROBBLE_CONFIG.enabled,
+            baseUrl: typeof stored?.baseUrl === "string" && stored.baseUrl ? stored.baseUrl : DEFAULT_SCROBBLE_CONFIG.baseUrl,
+            token: typeof stored?.token === "string" ? stored.token : DEFAULT_SCROBBLE_CONFIG.token,
+        };
+    } catch (error) {
+        console.error("Invalid scrobbling settings:", error);
+    }
+    return DEFAULT_SCROBBLE_CONFIG;
+};
+
+/**
+ * Stores the scrobbling settings.
+ *
+ * @param config - The new scrobbling settings.
+ */
+export const setScrobbleConfig = (config: ScrobbleConfig): void => {
+    Spicetify.LocalStorage.set(SCROBBLE_CONFIG_KEY, JSON.stringify({ ...config, baseUrl: config.baseUrl.trim().replace(/\/+$/, "") }));
+};
+
+/**
+ * Converts a song into a ListenBrainz listen.
+ *
+ * @param song - The song.
+ * @returns The listen.
+ */
+export const toListen = (song: Song): Listen => ({
+    listened_at: Math.floor(song.listenDate / 1000),
+    track_metadata: {
+        artist_name: song.artists.map((artist) => artist.name).join(", "),
+        track_name: song.name,
+        release_name: song.album.name || undefined,
+        additional_info: {
+            duration_ms: song.duration.milliseconds,
+            spotify_id: song.uri.startsWith("spotify:track:") ? `https://open.spotify.com/track/${song.uri.split(":")[2]}` : undefined,
+            media_player: "Spotify",
+            submission_client: "Spicetify History",
+        },
+    },
+});
+
+/**
+ * An error returned by the scrobbling service.
+ * Errors that are not retryable, such as an invalid token or listen, mark the entries as failed instead of queuing them again.
+ */
+class ScrobbleError extends Error {
+    constructor(message: string, public retryable: boolean) {
+        super(message);
+    }
+}
+
+/**
+ * Sends a request to the ListenBrainz API.
+ *
+ * @param config - The scrobbling settings.
+ * @param path - The path of the endpoint, e.g. "/1/submit-listens".
+ * @param body - The JSON body to post, or undefined for a GET request.
+ * @returns A promise that resolves to the JSON response.
+ * @throws A `ScrobbleError` if the request fails.
+ */
+const request = async (config: ScrobbleConfig, path: string, body?: unknown): Promise<any> => {
+    let response: Response;
+    try {
+        response = await fetch(`${config.baseUrl}${path}`, {
+            method: body === undefined ? "GET" : "POST",
+            headers: { "Authorization": `Token ${config.token}`, "Content-Type": "application/json" },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+    } catch (error) {
+        throw new ScrobbleError(error instanceof Error ? error.message : "Network error", true);
+    }
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        const retryable = response.status === 429 || response.status >= 500;
+        throw new ScrobbleError(json?.error || `HTTP ${response.status}`, retryable);
+    }
+    return json;
+};
+
+/**
+ * Checks the token against the service.
+ *
+ * @param config - The scrobbling settings to check.
+ * @returns A promise that resolves to the user name the token belongs to.
+ * @throws If the service cannot be reached or the token is invalid.
+ */
+export const validateScrobbleToken = async (config: ScrobbleConfig): Promise<string> => {
+    const response = await request(config, "/1/validate-token");
+    if (!response?.valid) throw new Error(response?.message || "Invalid token");
+    return response.user_name ?? "";
+};
+
+/**
+ * Sends a "now playing" update for a music track. It is not queued: a missed update is outdated by the next one anyway.
+ *
+ * @param song - The song that started playing.
+ */
+export const submitNowPlaying = async (song: Song): Promise<void> => {
+    const config = getScrobbleConfig();
+    if (!config.enabled || !config.token || song.mediaType !== "track") return;
+    const { track_metadata } = toListen(song);
+    try {
+        await request(config, "/1/submit-listens", { listen_type: "playing_now", payload: [{ track_metadata }] });
+    } catch (error) {
+        console.error("Failed to submit now playing:", error);
+    }
+};
+
+/**
+ * Queues a play for submission, if scrobbling is enabled. Only music tracks are scrobbled, not episodes or chapters.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param song - The play, once it passed the play threshold.
+ * @returns A promise that resolves to true if the play was queued.
+ */
+export const queueListen = async (db: IDBDatabase, song: Song): Promise<boolean> => {
+    if (!getScrobbleConfig().enabled || song.mediaType !== "track") return false;
+    return queueScrobbleInDB(db, song.playId, toListen(song));
+};
+
+/**
+ * Asks the extension to submit the due entries of the queue now.
+ */
+export const requestScrobbleFlush = (): void => {
+    window.dispatchEvent(new CustomEvent(SCROBBLE_FLUSH_EVENT));
+};
+
+/**
+ * Submits a batch of queued listens.
+ *
+ * @param config - The scrobbling settings.
+ * @param entries - The entries to submit.
+ * @returns A promise that resolves to the entries with their new status.
+ */
+const submitEntries = async (config: ScrobbleConfig, entries: ScrobbleEntry[]): Promise<ScrobbleEntry[]> => {
+    try {
+        await request(config, "/1/submit-listens", {
+            listen_type: entries.length === 1 ? "single" : "import",
+            payload: entries.map((entry) => entry.listen),
+        });
+        return entries.map(({ nextAttempt, error, ...entry }) => ({ ...entry, status: "submitted" }));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const retryable = !(error instanceof ScrobbleError) || error.retryable;
+        console.error("Failed to submit listens:", message);
+        return entries.map((entry) => {
+            const attempts = entry.attempts + 1;
+            if (!retryable) {
+                const { nextAttempt, ...failed } = entry;
+                return { ...failed, status: "failed", attempts, error: message };
+            }
+            const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+            return { ...entry, attempts, error: message, nextAttempt: Date.now() + delay };
+        });
+    }
+};
+
+/**
+ * Starts submitting the scrobble queue: now, when entries are queued, when the client comes back online, and whenever a retry is due.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A function submitting the due entries of the queue.
+ */
+export const startScrobbler = (db: IDBDatabase): (() => Promise<void>) => {
+    let flushing = false;
+    let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * Submits the due entries of the queue, then schedules the next attempt.
+     */
+    const flush = async (): Promise<void> => {
+        const config = getScrobbleConfig();
+        if (flushing || !config.enabled || !config.token) return;
+        flushing = true;
+        if (retryTimeout) clearTimeout(retryTimeout);
+        retryTimeout = null;
+        try {
+            while (navigator.onLine) {
+                const entries = await getDueScrobblesFromDB(db, Date.now(), BATCH_SIZE);
+                if (entries.length === 0) break;
+                const submitted = await submitEntries(config, entries);
+                await updateScrobblesInDB(db, submitted);
+                if (submitted.some((entry) => entry.status === "pending")) break;
+            }
+            const nextAttempt = await getNextScrobbleAttemptFromDB(db);
+            if (nextAttempt !== undefined && navigator.onLine) {
+                retryTimeout = setTimeout(flush, Math.max(nextAttempt - Date.now(), 1000));
+            }
+        } catch (error) {
+            console.error("Failed to submit scrobbles:", error);
+        } finally {
+            flushing = false;
+        }
+    };
+
+    window.addEventListener("online", flush);
+    window.addEventListener(SCROBBLE_FLUSH_EVENT, flush);
+    flush();
+    return flush;
+};
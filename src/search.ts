@@ -0,0 +1,232 @@
+/**
+ * search.ts
+ *
+ * This module parses and evaluates the search query language of the History app.
+ *
+ * A query is a list of terms separated by spaces, all of which must match:
+ * - `word` or `"quoted phrase"` matches the title, album or artists.
+ * - `artist:`, `album:` and `title:` match a single field, e.g. `artist:"daft punk"`.
+ * - `uri:` matches the exact Spotify URI of the track, its album or one of its artists, e.g. `uri:spotify:album:...`.
+ * - `from:` matches where the play comes from: the name of the playlist, album or other source, e.g. `from:"discover weekly"`,
+ *   or its exact URI, e.g. `from:spotify:playlist:...`.
+ * - `before:` and `after:` compare the listen date with a date written as YYYY-MM-DD, YYYY-MM or YYYY.
+ * - `duration` and `plays` compare the track duration (M:SS, H:MM:SS or seconds) or its play count with `>`, `>=`, `<`, `<=` or `=`, e.g. `duration>5:00` or `plays>10`.
+ * - A leading `-` negates a term, e.g. `-artist:foo`.
+ */
+
+import { Song } from "./db";
+
+type TextField = "any" | "artist" | "album" | "title";
+type NumberField = "duration" | "plays";
+type Comparison = ">" | ">=" | "<" | "<=" | "=";
+
+/**
+ * A single term of a search query.
+ */
+export type SearchCondition = { negated: boolean } & (
+  | { kind: "text"; field: TextField; value: string }
+  | { kind: "uri"; value: string }
+  | { kind: "source"; value: string }
+  | { kind: "date"; field: "before" | "after"; time: number }
+  | { kind: "number"; field: NumberField; comparison: Comparison; value: number }
+);
+
+/**
+ * A parsed search query.
+ */
+export interface SearchQuery {
+  conditions: SearchCondition[];
+  /** True if the query compares play counts, which have to be read from the database first. */
+  usesPlayCounts: boolean;
+}
+
+/**
+ * The result of parsing a search query: the query, or a message describing the first syntax error.
+ */
+export type ParseResult = { ok: true; query: SearchQuery } | { ok: false; error: string };
+
+const TEXT_FIELDS: TextField[] = ["artist", "album", "title"];
+const NUMBER_FIELDS: NumberField[] = ["duration", "plays"];
+
+/**
+ * A term of a query, with quotes removed.
+ * `unquotedLength` is the length of the part before the first quote, which is the only part a filter name or operator can be read from.
+ */
+interface Token {
+  token: string;
+  unquotedLength: number;
+}
+
+/**
+ * Splits a query into terms, keeping quoted phrases together.
+ * @param input - The query as typed.
+ * @returns The terms, or a message describing an unterminated quote.
+ */
+const tokenize = (input: string): Token[] | string => {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+    let token = "";
+    let unquotedLength = -1;
+    while (index < input.length && !/\s/.test(input[index])) {
+      if (input[index] === '"') {
+        const end = input.indexOf('"', index + 1);
+        if (end === -1) return `Missing closing quote after ${input.slice(index)}`;
+        if (unquotedLength === -1) unquotedLength = token.length;
+        token += input.slice(index + 1, end);
+        index = end + 1;
+      } else {
+        token += input[index++];
+      }
+    }
+    tokens.push({ token, unquotedLength: unquotedLength === -1 ? token.length : unquotedLength });
+  }
+  return tokens;
+};
+
+/**
+ * Parses a date written as YYYY-MM-DD, YYYY-MM or YYYY into the local start of that period.
+ * `before:` then excludes the whole period and `after:` includes it.
+ * @param value - The date as written.
+ * @returns The timestamp, or undefined if the date is invalid.
+ */
+const parseDate = (value: string): number | undefined => {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+  if (!match) return undefined;
+  const year = parseInt(match[1]);
+  const month = match[2] ? parseInt(match[2]) - 1 : 0;
+  const day = match[3] ? parseInt(match[3]) : 1;
+  const date = new Date(year, month, day);
+  if (date.getMonth() !== month || date.getDate() !== day) return undefined;
+  return date.getTime();
+};
+
+/**
+ * Parses a duration written as M:SS, H:MM:SS or a number of seconds.
+ * @param value - The duration as written.
+ * @returns The duration in milliseconds, or undefined if it is invalid.
+ */
+const parseDuration = (value: string): number | undefined => {
+  if (!/^\d+(:\d{1,2}){0,2}$/.test(value)) return undefined;
+  return value.split(":").reduce((total, part) => total * 60 + parseInt(part), 0) * 1000;
+};
+
+/**
+ * Parses a search query.
+ * @param input - The query as typed.
+ * @returns The parsed query, or the first syntax error.
+ */
+export const parseQuery = (input: string): ParseResult => {
+  const tokens = tokenize(input);
+  if (typeof tokens === "string") return { ok: false, error: tokens };
+
+  const conditions: SearchCondition[] = [];
+  for (const { token: rawToken, unquotedLength } of tokens) {
+    const negated = rawToken.startsWith("-") && unquotedLength > 1;
+    const token = negated ? rawToken.slice(1) : rawToken;
+    const filterLength = negated ? unquotedLength - 1 : unquotedLength;
+
+    const numberMatch = /^([a-z]+)(>=|<=|>|<|=)(.*)$/i.exec(token);
+    if (numberMatch && numberMatch[1].length + numberMatch[2].length <= filterLength) {
+      const field = numberMatch[1].toLowerCase() as NumberField;
+      const comparison = numberMatch[2] as Comparison;
+      if (!NUMBER_FIELDS.includes(field)) {
+        return { ok: false, error: `"${numberMatch[1]}" cannot be compared; use duration or plays` };
+      }
+      const value = field === "duration" ? parseDuration(numberMatch[3]) : /^\d+$/.test(numberMatch[3]) ? parseInt(numberMatch[3]) : undefined;
+      if (value === undefined) {
+        return { ok: false, error: field === "duration"
+          ? `Invalid duration "${numberMatch[3]}"; use M:SS, e.g. duration>5:00`
+          : `Invalid play count "${numberMatch[3]}"; use a whole number, e.g. plays>10` };
+      }
+      conditions.push({ kind: "number", field, comparison, value, negated });
+      continue;
+    }
+
+    const fieldMatch = /^([a-z]+):(.*)$/i.exec(token);
+    if (fieldMatch && fieldMatch[1].length < filterLength) {
+      const field = fieldMatch[1].toLowerCase();
+      const value = fieldMatch[2];
+      if (!value) return { ok: false, error: `Missing value after ${field}:` };
+      if (field === "before" || field === "after") {
+        const time = parseDate(value);
+        if (time === undefined) return { ok: false, error: `Invalid date "${value}"; use YYYY-MM-DD, e.g. ${field}:2026-01-01` };
+        conditions.push({ kind: "date", field, time, negated });
+      } else if (field === "uri") {
+        conditions.push({ kind: "uri", value, negated });
+      } else if (field === "from") {
+        conditions.push({ kind: "source", value: value.startsWith("spotify:") ? value : value.toLowerCase(), negated });
+      } else if (TEXT_FIELDS.includes(field as TextField)) {
+        conditions.push({ kind: "text", field: field as TextField, value: value.toLowerCase(), negated });
+      } else {
+        return { ok: false, error: `Unknown filter "${field}:"; use artist:, album:, title:, uri:, from:, before: or after:, or put the text in quotes` };
+      }
+      continue;
+    }
+
+    if (token) conditions.push({ kind: "text", field: "any", value: token.toLowerCase(), negated });
+  }
+
+  return {
+    ok: true,
+    query: { conditions, usesPlayCounts: conditions.some((condition) => condition.kind === "number" && condition.field === "plays") },
+  };
+};
+
+/**
+ * Compares a value with a comparison operator.
+ */
+const compare = (actual: number, comparison: Comparison, expected: number): boolean => {
+  switch (comparison) {
+    case ">": return actual > expected;
+    case ">=": return actual >= expected;
+    case "<": return actual < expected;
+    case "<=": return actual <= expected;
+    case "=": return actual === expected;
+  }
+};
+
+/**
+ * Checks whether a song matches every term of a search query.
+ * @param song - The song to check.
+ * @param query - The parsed query.
+ * @param playCounts - Play counts per track URI, required when the query uses `plays`.
+ * @returns True if the song matches.
+ */
+export const matchesQuery = (song: Song, query: SearchQuery, playCounts?: Map<string, number>): boolean => {
+  const title = song.name.toLowerCase();
+  const album = song.album?.name?.toLowerCase() ?? "";
+  const artists = song.artists?.map((artist) => artist.name.toLowerCase()) ?? [];
+
+  return query.conditions.every((condition) => {
+    let matches: boolean;
+    if (condition.kind === "text") {
+      const inTitle = () => title.includes(condition.value);
+      const inAlbum = () => album.includes(condition.value);
+      const inArtists = () => artists.some((artist) => artist.includes(condition.value));
+      matches = condition.field === "title" ? inTitle()
+        : condition.field === "album" ? inAlbum()
+        : condition.field === "artist" ? inArtists()
+        : inTitle() || inAlbum() || inArtists();
+    } else if (condition.kind === "uri") {
+      matches = song.uri === condition.value || song.album?.uri === condition.value || (song.artists?.some((artist) => artist.uri === condition.value) ?? false);
+    } else if (condition.kind === "source") {
+      matches = condition.value.startsWith("spotify:")
+        ? song.context?.uri === condition.value
+        : song.context?.name?.toLowerCase().includes(condition.value) ?? false;
+    } else if (condition.kind === "date") {
+      matches = condition.field === "before" ? song.listenDate < condition.time : song.listenDate >= condition.time;
+    } else {
+      // Durations are written in whole seconds, so compare them without the milliseconds.
+      const actual = condition.field === "duration"
+        ? Math.floor(song.duration.milliseconds / 1000) * 1000
+        : playCounts?.get(song.uri) ?? 0;
+      matches = compare(actual, condition.comparison, condition.value);
+    }
+    return matches !== condition.negated;
+  });
+};
@@ -0,0 +1,135 @@
+/**
+ * sessions.ts
+ *
+ * This module groups plays into listening sessions. A session is a run of plays with no idle gap between them longer than the session gap:
+ * a play more than the gap after the end of the previous one starts a new session. Sessions are then grouped by the day they start on.
+ *
+ * The session gap is stored in Spicetify.LocalStorage, like the other settings of the app.
+ */
+
+import { Song, toDateKey } from "./db";
+
+/**
+ * A run of plays without a long idle gap.
+ */
+export interface ListeningSession {
+    /** The play id of the first play, which identifies the session. */
+    id: string;
+    start: number;
+    /** The time the last play ended. */
+    end: number;
+    /** The plays, in chronological order. */
+    plays: Song[];
+    /** The time actually listened to, in milliseconds. */
+    playedMs: number;
+    /** The most played artists, most played first. */
+    topArtists: string[];
+}
+
+/**
+ * The sessions that started on a day.
+ */
+export interface SessionDay {
+    /** The local date, as YYYY-MM-DD. */
+    day: string;
+    sessions: ListeningSession[];
+    playedMs: number;
+}
+
+const SESSION_GAP_KEY = "spicetify-history:session-gap-minutes";
+
+export const DEFAULT_SESSION_GAP_MINUTES = 30;
+
+// Number of artists named in a session header.
+const TOP_ARTISTS = 3;
+
+/**
+ * Reads the idle gap that ends a session.
+ *
+ * @returns The gap in minutes, falling back to the default for missing or invalid values.
+ */
+export const getSessionGapMinutes = (): number => {
+    const minutes = parseInt(Spicetify.LocalStorage.get(SESSION_GAP_KEY) || "");
+    return !isNaN(minutes) && minutes >= 1 ? minutes : DEFAULT_SESSION_GAP_MINUTES;
+};
+
+/**
+ * Stores the idle gap that ends a session.
+ *
+ * @param minutes - The gap in minutes.
+ */
+export const setSessionGapMinutes = (minutes: number): void => {
+    Spicetify.LocalStorage.set(SESSION_GAP_KEY, `${minutes}`);
+};
+
+/**
+ * Ranks the artists of a session's plays. Skipped plays only count when every play was skipped.
+ */
+const rankArtists = (plays: Song[]): string[] => {
+    const listened = plays.filter((play) => !play.skipped);
+    const counts = new Map<string, number>();
+    for (const play of listened.length > 0 ? listened : plays) {
+        for (const artist of play.artists) {
+            counts.set(artist.name, (counts.get(artist.name) ?? 0) + 1);
+        }
+    }
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_ARTISTS)
+        .map(([name]) => name);
+};
+
+/**
+ * Builds a session from its plays.
+ */
+const toSession = (plays: Song[]): ListeningSession => ({
+    id: plays[0].playId,
+    start: plays[0].listenDate,
+    end: Math.max(...plays.map((play) => play.listenDate + play.playedMs)),
+    plays,
+    playedMs: plays.reduce((total, play) => total + play.playedMs, 0),
+    topArtists: rankArtists(plays),
+});
+
+/**
+ * Groups plays into sessions.
+ *
+ * @param songs - The plays, in chronological order.
+ * @param gapMinutes - The idle gap that ends a session.
+ * @returns The sessions, in chronological order.
+ */
+export const groupSessions = (songs: Song[], gapMinutes: number): ListeningSession[] => {
+    const gapMs = gapMinutes * 60 * 1000;
+    const sessions: ListeningSession[] = [];
+    let plays: Song[] = [];
+    let end = 0;
+    for (const song of songs) {
+        if (plays.length > 0 && song.listenDate - end > gapMs) {
+            sessions.push(toSession(plays));
+            plays = [];
+            end = 0;
+        }
+        plays.push(song);
+        end = Math.max(end, song.listenDate + song.playedMs);
+    }
+    if (plays.length > 0) sessions.push(toSession(plays));
+    return sessions;
+};
+
+/**
+ * Groups sessions by the day they start on.
+ *
+ * @param sessions - The sessions, in chronological order.
+ * @returns The days, most recent first, each with its sessions most recent first.
+ */
+export const groupSessionsByDay = (sessions: ListeningSession[]): SessionDay[] => {
+    const days = new Map<string, SessionDay>();
+    for (const session of sessions) {
+        const day = toDateKey(session.start);
+        const sessionDay = days.get(day) ?? { day, sessions: [], playedMs: 0 };
+        sessionDay.sessions.unshift(session);
+        sessionDay.playedMs += session.playedMs;
+        days.set(day, sessionDay);
+    }
+    return [...days.values()].reverse();
+};
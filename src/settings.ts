@@ -0,0 +1,251 @@
+/**
+ * settings.ts
+ *
+ * This module holds the display settings of the History app: the columns of the history list and their order, the default sort,
+ * the date and time formats, the row density, the search debounce and the length titles are truncated to.
+ * Each setting is described by the schema below, which gives its default and how a stored value is checked; invalid or missing
+ * values fall back to their defaults, so settings stored by an older version keep working.
+ *
+ * The settings are stored in Spicetify.LocalStorage so that the app and the extension share them.
+ */
+
+import { SortConfig, SortKey } from "./db";
+
+/**
+ * The columns of the history list that can be shown, hidden and reordered.
+ */
+export type ColumnKey = "title" | "album" | "source" | "date" | "plays" | "duration";
+
+/**
+ * A column of the history list, in the order it is shown.
+ */
+export interface ColumnSetting {
+    key: ColumnKey;
+    visible: boolean;
+}
+
+export type DateFormat = "locale" | "iso" | "day-month-year" | "month-day-year";
+
+export type TimeFormat = "locale" | "24h" | "12h";
+
+export type Density = "compact" | "normal" | "comfortable";
+
+/**
+ * The display settings of the History app.
+ */
+export interface HistorySettings {
+    /** Every column, in the order it is shown. */
+    columns: ColumnSetting[];
+    /** The sort the history list opens with. */
+    defaultSort: SortConfig;
+    dateFormat: DateFormat;
+    timeFormat: TimeFormat;
+    density: Density;
+    /** The time to wait after the last keystroke before searching, in milliseconds. */
+    searchDebounceMs: number;
+    /** The number of characters titles and album names are truncated to in the history list; 0 never truncates. */
+    truncateLength: number;
+}
+
+/**
+ * How a setting is stored: its default and whether a stored value is valid.
+ */
+interface SettingSchema<T> {
+    default: T;
+    isValid: (value: any) => value is T;
+}
+
+/**
+ * The columns of the history list, with the header shown, the sort they apply when clicked, and their width in the grid.
+ */
+export const COLUMNS: { key: ColumnKey; label: string; sort?: SortKey; width: string }[] = [
+    { key: "title", label: "Title", sort: "name", width: "minmax(150px, 4fr)" },
+    { key: "album", label: "Album", sort: "album", width: "minmax(120px, 2fr)" },
+    { key: "source", label: "Played from", width: "minmax(100px, 1.5fr)" },
+    { key: "date", label: "Date Added", sort: "date", width: "minmax(140px, 1fr)" },
+    { key: "plays", label: "Plays", sort: "plays", width: "minmax(40px, 0.4fr)" },
+    { key: "duration", label: "Duration", sort: "duration", width: "minmax(50px, 0.5fr)" },
+];
+
+export const SORT_LABELS: Record<SortKey, string> = {
+    date: "Date added",
+    name: "Title",
+    album: "Album",
+    duration: "Duration",
+    plays: "Plays",
+};
+
+export const DATE_FORMATS: { format: DateFormat; label: string }[] = [
+    { format: "locale", label: "System default" },
+    { format: "iso", label: "2026-03-02" },
+    { format: "day-month-year", label: "02/03/2026" },
+    { format: "month-day-year", label: "03/02/2026" },
+];
+
+export const TIME_FORMATS: { format: TimeFormat; label: string }[] = [
+    { format: "locale", label: "System default" },
+    { format: "24h", label: "14:05" },
+    { format: "12h", label: "2:05 PM" },
+];
+
+/**
+ * The row densities of the history list, with the height of a row in pixels.
+ */
+export const DENSITIES: { density: Density; label: string; rowHeight: number }[] = [
+    { density: "compact", label: "Compact", rowHeight: 44 },
+    { density: "normal", label: "Normal", rowHeight: 60 },
+    { density: "comfortable", label: "Comfortable", rowHeight: 72 },
+];
+
+const SETTINGS_KEY = "spicetify-history:settings";
+
+/**
+ * The window event dispatched after the settings have changed, so the app and the extension apply them right away.
+ */
+export const SETTINGS_CHANGED_EVENT = "spicetify-history:settings-changed";
+
+const isColumnKey = (value: any): value is ColumnKey => COLUMNS.some(({ key }) => key === value);
+
+const isOneOf = <T>(values: T[]) => (value: any): value is T => values.includes(value);
+
+const isIntegerBetween = (min: number, max: number) => (value: any): value is number =>
+    Number.isInteger(value) && value >= min && value <= max;
+
+export const SETTINGS_SCHEMA: { [K in keyof HistorySettings]: SettingSchema<HistorySettings[K]> } = {
+    columns: {
+        default: COLUMNS.map(({ key }) => ({ key, visible: true })),
+        isValid: (value): value is ColumnSetting[] =>
+            Array.isArray(value) && value.every((column) => isColumnKey(column?.key) && typeof column.visible === "boolean"),
+    },
+    defaultSort: {
+        default: { key: "date", ascending: false },
+        isValid: (value): value is SortConfig => value?.key in SORT_LABELS && typeof value.ascending === "boolean",
+    },
+    dateFormat: { default: "locale", isValid: isOneOf(DATE_FORMATS.map(({ format }) => format)) },
+    timeFormat: { default: "locale", isValid: isOneOf(TIME_FORMATS.map(({ format }) => format)) },
+    density: { default: "normal", isValid: isOneOf(DENSITIES.map(({ density }) => density)) },
+    searchDebounceMs: { default: 300, isValid: isIntegerBetween(0, 5000) },
+    truncateLength: { default: 50, isValid: isIntegerBetween(0, 1000) },
+};
+
+export const DEFAULT_SETTINGS: HistorySettings = {
+    columns: SETTINGS_SCHEMA.columns.default,
+    defaultSort: SETTINGS_SCHEMA.defaultSort.default,
+    dateFormat: SETTINGS_SCHEMA.dateFormat.default,
+    timeFormat: SETTINGS_SCHEMA.timeFormat.default,
+    density: SETTINGS_SCHEMA.density.default,
+    searchDebounceMs: SETTINGS_SCHEMA.searchDebounceMs.default,
+    truncateLength: SETTINGS_SCHEMA.truncateLength.default,
+};
+
+/**
+ * Reads a setting from the stored settings, checked against its schema.
+ */
+const readSetting = <K extends keyof HistorySettings>(stored: Record<string, any> | null, key: K): HistorySettings[K] => {
+    const schema: SettingSchema<HistorySettings[K]> = SETTINGS_SCHEMA[key];
+    return schema.isValid(stored?.[key]) ? stored![key] : schema.default;
+};
+
+/**
+ * Completes a stored column list: unknown and repeated columns are dropped, columns added since it was stored are appended,
+ * and the title column is always shown.
+ */
+const normalizeColumns = (columns: ColumnSetting[]): ColumnSetting[] => {
+    const seen = new Set<ColumnKey>();
+    const known = columns.filter((column) => !seen.has(column.key) && seen.add(column.key));
+    const added = COLUMNS.filter(({ key }) => !seen.has(key)).map(({ key }) => ({ key, visible: true }));
+    return [...known, ...added].map((column) => ({ key: column.key, visible: column.key === "title" || column.visible }));
+};
+
+/**
+ * Reads the settings, falling back to the defaults for missing or invalid values.
+ *
+ * @returns The current settings.
+ */
+export const getSettings = (): HistorySettings => {
+    let stored: Record<string, any> | null = null;
+    try {
+        stored = JSON.parse(Spicetify.LocalStorage.get(SETTINGS_KEY) || "null");
+    } catch (error) {
+        console.error("Invalid settings:", error);
+    }
+    return {
+        columns: normalizeColumns(readSetting(stored, "columns")),
+        defaultSort: readSetting(stored, "defaultSort"),
+        dateFormat: readSetting(stored, "dateFormat"),
+        timeFormat: readSetting(stored, "timeFormat"),
+        density: readSetting(stored, "density"),
+        searchDebounceMs: readSetting(stored, "searchDebounceMs"),
+        truncateLength: readSetting(stored, "truncateLength"),
+    };
+};
+
+/**
+ * Stores the settings.
+ *
+ * @param settings - The new settings.
+ */
+export const setSettings = (settings: HistorySettings): void => {
+    Spicetify.LocalStorage.set(SETTINGS_KEY, JSON.stringify(settings));
+    window.dispatchEvent(new CustomEvent<HistorySettings>(SETTINGS_CHANGED_EVENT, { detail: settings }));
+};
+
+/**
+ * Reads the height of a row of the history list at a density.
+ *
+ * @param density - The row density.
+ * @returns The height in pixels.
+ */
+export const getRowHeight = (density: Density): number => DENSITIES.find((item) => item.density === density)!.rowHeight;
+
+const pad = (value: number): string => `${value}`.padStart(2, "0");
+
+/**
+ * Formats the date of a time in the chosen date format.
+ *
+ * @param time - The time.
+ * @param settings - The settings to format with; read from storage when omitted.
+ * @returns Formatted string.
+ */
+export const formatDate = (time: number, settings: Pick<HistorySettings, "dateFormat"> = getSettings()): string => {
+    const date = new Date(time);
+    const [day, month, year] = [pad(date.getDate()), pad(date.getMonth() + 1), date.getFullYear()];
+    if (settings.dateFormat === "iso") return `${year}-${month}-${day}`;
+    if (settings.dateFormat === "day-month-year") return `${day}/${month}/${year}`;
+    if (settings.dateFormat === "month-day-year") return `${month}/${day}/${year}`;
+    return date.toLocaleDateString();
+};
+
+/**
+ * Formats the time of day of a time in the chosen time format.
+ *
+ * @param time - The time.
+ * @param settings - The settings to format with; read from storage when omitted.
+ * @returns Formatted string.
+ */
+export const formatTime = (time: number, settings: Pick<HistorySettings, "timeFormat"> = getSettings()): string => {
+    const date = new Date(time);
+    if (settings.timeFormat === "24h") return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+    if (settings.timeFormat === "12h") return `${date.getHours() % 12 || 12}:${pad(date.getMinutes())} ${date.getHours() < 12 ? "AM" : "PM"}`;
+    return date.toLocaleTimeString();
+};
+
+/**
+ * Formats the date and time of day of a time in the chosen formats.
+ *
+ * @param time - The time.
+ * @param settings - The settings to format with; read from storage when omitted.
+ * @returns Formatted string.
+ */
+export const formatDateTime = (time: number, settings: Pick<HistorySettings, "dateFormat" | "timeFormat"> = getSettings()): string =>
+    `${formatDate(time, settings)} ${formatTime(time, settings)}`;
+
+/**
+ * Truncates a title or album name to the chosen length.
+ *
+ * @param text - The text.
+ * @param length - The number of characters kept; 0 keeps the whole text.
+ * @returns The text, ending with "..." when it was truncated.
+ */
+export const truncate = (text: string, length: number): string =>
+    length > 0 && text.length > length ? `${text.substring(0, length)}...` : text;
@@ -0,0 +1,251 @@
+/**
+ * spotifyImport.ts
+ *
+ * This module converts the streaming history of Spotify's "Download your data" export into plays.
+ * Two formats are supported:
+ * - The account data export (StreamingHistory_music_*.json), with "endTime", "artistName", "trackName" and "msPlayed" but no track URI.
+ * - The extended streaming history (Streaming_History_Audio_*.json), with "ts", "ms_played", "spotify_track_uri" and "master_metadata_*" fields.
+ *   Its podcast episodes and audiobook chapters are imported too.
+ *
+ * Both only record when a play ended and how long it lasted, so the listen date is estimated as the end time minus the listened time.
+ * Missing track data is filled in from tracks already stored in IndexedDB, then from the Spotify Web API.
+ * Plays matching one already stored, e.g. because the extension recorded it too, reuse its play id so the import policy treats them as duplicates.
+ */
+
+import { Song, Track, Play, MediaType, createPlayId, getTrackHistoryFromDB, findTracksByNameFromDB } from "./db";
+import { getPlayThreshold, hasReachedThreshold } from "./tracking";
+import { ImportRecordError } from "./importer";
+
+export type SpotifyHistoryFormat = "basic" | "extended";
+
+/**
+ * A play read from a Spotify export, before it is matched to a track.
+ */
+interface SpotifyPlay {
+    uri?: string;
+    mediaType: MediaType;
+    name: string;
+    artistName: string;
+    albumName: string;
+    endTime: number;
+    msPlayed: number;
+    skipped?: boolean;
+}
+
+/**
+ * A record of a Spotify export, with where it comes from for error reports.
+ */
+export interface SpotifyRecord {
+    file: string;
+    record: number;
+    value: any;
+}
+
+// A stored play matches an imported one when it started at most this long before the estimated start, which is late by the time spent paused.
+const MATCH_BEFORE_MS = 10 * 60 * 1000;
+
+// ...or at most this long after it, to allow for clock and rounding differences.
+const MATCH_AFTER_MS = 60 * 1000;
+
+// Number of tracks the Spotify Web API returns per request.
+const WEB_API_BATCH_SIZE = 50;
+
+/**
+ * Detects whether a record comes from a Spotify export, and which one.
+ *
+ * @param record - A record of the imported file.
+ * @returns The format, or null if the record is not from a Spotify export.
+ */
+export const detectSpotifyFormat = (record: any): SpotifyHistoryFormat | null => {
+    if (typeof record !== "object" || record === null) return null;
+    if ("ts" in record && "ms_played" in record) return "extended";
+    if ("endTime" in record && "msPlayed" in record) return "basic";
+    return null;
+};
+
+/**
+ * Reads a record of the account data export.
+ *
+ * @param record - The record.
+ * @returns The play, or a message describing why the record is invalid.
+ */
+const parseBasicRecord = (record: any): SpotifyPlay | string => {
+    if (typeof record.episodeName === "string") return "podcast episodes without a URI are not supported; use the extended streaming history";
+    if (typeof record.trackName !== "string" || typeof record.artistName !== "string") return "missing trackName or artistName";
+    if (typeof record.msPlayed !== "number") return "missing or invalid msPlayed";
+    // "endTime" is written in UTC as "YYYY-MM-DD HH:MM".
+    const endTime = Date.parse(`${String(record.endTime).replace(" ", "T")}:00Z`);
+    if (isNaN(endTime)) return "missing or invalid endTime";
+    return { mediaType: "track", name: record.trackName, artistName: record.artistName, albumName: "", endTime, msPlayed: record.msPlayed };
+};
+
+/**
+ * Reads a record of the extended streaming history.
+ *
+ * @param record - The record.
+ * @returns The play, or a message describing why the record is invalid.
+ */
+const parseExtendedRecord = (record: any): SpotifyPlay | string => {
+    if (typeof record.ms_played !== "number") return "missing or invalid ms_played";
+    const endTime = Date.parse(record.ts);
+    if (isNaN(endTime)) return "missing or invalid ts";
+    if (typeof record.spotify_episode_uri === "string" && record.spotify_episode_uri) {
+        return {
+            uri: record.spotify_episode_uri,
+            mediaType: "episode",
+            name: record.episode_name ?? "",
+            artistName: "",
+            albumName: record.episode_show_name ?? "",
+            endTime,
+            msPlayed: record.ms_played,
+        };
+    }
+    if (typeof record.audiobook_chapter_uri === "string" && record.audiobook_chapter_uri) {
+        return {
+            uri: record.audiobook_chapter_uri,
+            mediaType: "chapter",
+            name: record.audiobook_chapter_title ?? "",
+            artistName: "",
+            albumName: record.audiobook_title ?? "",
+            endTime,
+            msPlayed: record.ms_played,
+        };
+    }
+    if (typeof record.spotify_track_uri !== "string" || !record.spotify_track_uri.startsWith("spotify:track:")) {
+        return "not a track, episode or chapter";
+    }
+    return {
+        uri: record.spotify_track_uri,
+        mediaType: "track",
+        name: record.master_metadata_track_name ?? "",
+        artistName: record.master_metadata_album_artist_name ?? "",
+        albumName: record.master_metadata_album_album_name ?? "",
+        endTime,
+        msPlayed: record.ms_played,
+        skipped: typeof record.skipped === "boolean" ? record.skipped : undefined,
+    };
+};
+
+/**
+ * Builds the URI Spotify gives local files, used for plays of the account data export that match no known track.
+ */
+const localTrackUri = (play: SpotifyPlay): string => {
+    const encode = (value: string) => encodeURIComponent(value).replace(/%20/g, "+");
+    return `spotify:local:${encode(play.artistName)}:${encode(play.albumName)}:${encode(play.name)}:0`;
+};
+
+/**
+ * Fetches track data from the Spotify Web API.
+ * Tracks that cannot be fetched are left out; the import then falls back on the data of the export.
+ *
+ * @param uris - The URIs of the tracks.
+ * @returns A promise that resolves to the tracks, keyed by URI.
+ */
+const fetchTracks = async (uris: string[]): Promise<Map<string, Track>> => {
+    const tracks = new Map<string, Track>();
+    for (let start = 0; start < uris.length; start += WEB_API_BATCH_SIZE) {
+        const ids = uris.slice(start, start + WEB_API_BATCH_SIZE).map((uri) => uri.split(":")[2]);
+        try {
+            const response = await Spicetify.CosmosAsync.get(`https://api.spotify.com/v1/tracks?ids=${ids.join(",")}`);
+            for (const track of response?.tracks ?? []) {
+                if (!track?.uri) continue;
+                tracks.set(track.uri, {
+                    uri: track.uri,
+                    name: track.name,
+                    mediaType: "track",
+                    duration: { milliseconds: track.duration_ms },
+                    album: { name: track.album?.name ?? "", uri: track.album?.uri ?? "" },
+                    artists: (track.artists ?? []).map((artist: any) => ({ name: artist.name, uri: artist.uri })),
+                    metadata: {},
+                    images: (track.album?.images ?? []).map((image: any) => ({
+                        url: image.url,
+                        label: image.width >= 640 ? "xlarge" : image.width >= 300 ? "large" : "small",
+                    })),
+                });
+            }
+        } catch (error) {
+            console.error("Failed to fetch track data:", error);
+        }
+    }
+    return tracks;
+};
+
+/**
+ * Converts the records of Spotify exports into plays.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param records - The records of one or more export files.
+ * @returns A promise that resolves to the plays and the errors of the records that could not be converted.
+ */
+export const convertSpotifyHistory = async (db: IDBDatabase, records: SpotifyRecord[]): Promise<{ songs: Song[]; errors: ImportRecordError[] }> => {
+    const errors: ImportRecordError[] = [];
+    const plays: SpotifyPlay[] = [];
+    for (const { file, record, value } of records) {
+        const format = detectSpotifyFormat(value);
+        const play = format === "extended" ? parseExtendedRecord(value) : format === "basic" ? parseBasicRecord(value) : "not a Spotify streaming history record";
+        if (typeof play === "string") {
+            errors.push({ file, record, message: play });
+        } else {
+            plays.push(play);
+        }
+    }
+
+    // Give plays of the account data export the URI of a stored track with the same title and artist.
+    const unresolved = plays.filter((play) => !play.uri);
+    const tracksByName = await findTracksByNameFromDB(db, unresolved.map((play) => play.name));
+    for (const play of unresolved) {
+        const track = tracksByName.get(play.name)?.find((track) => track.artists.some((artist) => artist.name === play.artistName));
+        play.uri = track?.uri ?? localTrackUri(play);
+    }
+
+    // Fill in track data from the stored tracks, then from the Web API.
+    const history = await getTrackHistoryFromDB(db, plays.map((play) => play.uri as string));
+    const missing = [...history.entries()]
+        .filter(([uri, entry]) => !entry.track && uri.startsWith("spotify:track:"))
+        .map(([uri]) => uri);
+    const fetched = await fetchTracks(missing);
+
+    // Without track data, the longest play of a track is the best estimate of its duration.
+    const longestPlays = new Map<string, number>();
+    for (const play of plays) {
+        longestPlays.set(play.uri as string, Math.max(longestPlays.get(play.uri as string) ?? 0, play.msPlayed));
+    }
+
+    const threshold = getPlayThreshold();
+    const matchedIds = new Set<string>();
+    const songs = plays.map((play): Song => {
+        const uri = play.uri as string;
+        const entry = history.get(uri);
+        const track: Track = entry?.track ?? fetched.get(uri) ?? {
+            uri,
+            name: play.name,
+            mediaType: play.mediaType,
+            duration: { milliseconds: longestPlays.get(uri) ?? play.msPlayed },
+            album: { name: play.albumName, uri: "" },
+            artists: play.artistName ? [{ name: play.artistName, uri: "" }] : [],
+            metadata: {},
+            images: [],
+        };
+        const listenDate = play.endTime - play.msPlayed;
+
+        // Reuse the id of the closest stored play of the same track that has not been matched yet.
+        let match: Play | undefined;
+        for (const stored of entry?.plays ?? []) {
+            if (matchedIds.has(stored.id)) continue;
+            if (stored.listenDate < listenDate - MATCH_BEFORE_MS || stored.listenDate > listenDate + MATCH_AFTER_MS) continue;
+            if (!match || Math.abs(stored.listenDate - listenDate) < Math.abs(match.listenDate - listenDate)) match = stored;
+        }
+        if (match) matchedIds.add(match.id);
+
+        return {
+            ...track,
+            playId: match?.id ?? createPlayId(uri, listenDate),
+            uid: match?.uid ?? "",
+            listenDate: match?.listenDate ?? listenDate,
+            playedMs: play.msPlayed,
+            skipped: play.skipped === true || !hasReachedThreshold(play.msPlayed, track.duration.milliseconds, threshold),
+        };
+    });
+
+    return { songs, errors };
+};
@@ -0,0 +1,378 @@
+/**
+ * sync.ts
+ *
+ * This module keeps the history of several machines in sync through a sync document: a JSON file holding the last change of every play.
+ * The document lives on a sync target, a WebDAV server or any HTTP endpoint that serves it on GET and stores it on PUT,
+ * or is carried from one machine to another as a sync file.
+ *
+ * Syncing with a target is incremental. Every change written to the document gets the document's new revision, and each machine
+ * remembers the last revision it has seen, so it only merges the changes made elsewhere since, and only pushes the changes made here since.
+ * Changes are merged with `mergeChangesInDB`, whose ordering is the same on every machine, so they all end up with the same history
+ * without duplicates, and deletions are kept as changes so that other machines do not bring deleted plays back.
+ *
+ * The settings and the sync state are stored in Spicetify.LocalStorage so that the app and the extension share them.
+ */
+
+import { SyncChange, MergeCounts, compareChanges, getChangesFromDB, markChangesSyncedInDB, mergeChangesInDB } from "./db";
+import { validateSong } from "./importer";
+import { getRetentionMonths, getRetentionCutoff } from "./retention";
+
+/**
+ * The settings of the sync target.
+ */
+export interface SyncConfig {
+    /** The URL of the sync document, or an empty string to not sync with a target. */
+    url: string;
+    /** The credentials sent with Basic authentication, if any. */
+    username: string;
+    password: string;
+    /** Whether the extension syncs on its own. */
+    auto: boolean;
+}
+
+/**
+ * What this machine knows about the sync target.
+ */
+export interface SyncState {
+    /** The target the state belongs to. */
+    url: string;
+    /** The last revision of the sync document merged here. */
+    revision: number;
+    /** The time of the last successful sync. */
+    lastSync?: number;
+}
+
+/**
+ * A change in the sync document, with the revision that wrote it.
+ */
+interface DocumentChange extends SyncChange {
+    revision: number;
+}
+
+/**
+ * The sync document.
+ */
+export interface SyncDocument {
+    format: typeof SYNC_FORMAT;
+    revision: number;
+    changes: DocumentChange[];
+}
+
+/**
+ * The outcome of a sync.
+ */
+export interface SyncResult {
+    pulled: MergeCounts;
+    pushed: number;
+}
+
+const SYNC_FORMAT = "spicetify-history-sync";
+
+const SYNC_CONFIG_KEY = "spicetify-history:sync";
+const SYNC_STATE_KEY = "spicetify-history:sync-state";
+const DEVICE_ID_KEY = "spicetify-history:device-id";
+
+export const DEFAULT_SYNC_CONFIG: SyncConfig = { url: "", username: "", password: "", auto: false };
+
+// How often the extension syncs when automatic sync is on.
+const SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+// Number of times a sync starts over when another machine changed the document in the meantime.
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Reads the sync settings, falling back to the defaults for missing or invalid values.
+ *
+ * @returns The current sync settings.
+ */
+export const getSyncConfig = (): SyncConfig => {
+    try {
+        const stored = JSON.parse(Spicetify.LocalStorage.get(SYNC_CONFIG_KEY) || "null");
+        return {
+            url: typeof stored?.url === "string" ? stored.url : DEFAULT_SYNC_CONFIG.url,
+            username: typeof stored?.username === "string" ? stored.username : DEFAULT_SYNC_CONFIG.username,
+            password: typeof stored?.password === "string" ? stored.password : DEFAULT_SYNC_CONFIG.password,
+            auto: typeof stored?.auto === "boolean" ? stored.auto : DEFAULT_SYNC_CONFIG.auto,
+        };
+    } catch (error) {
+        console.error("Invalid sync settings:", error);
+    }
+    return DEFAULT_SYNC_CONFIG;
+};
+
+/**
+ * Stores the sync settings.
+ *
+ * @param config - The new sync settings.
+ */
+export const setSyncConfig = (config: SyncConfig): void => {
+    Spicetify.LocalStorage.set(SYNC_CONFIG_KEY, JSON.stringify(config));
+};
+
+/**
+ * Reads what this machine knows about the sync target.
+ *
+ * @returns The sync state, or undefined if this machine never synced.
+ */
+export const getSyncState = (): SyncState | undefined => {
+    try {
+        const stored = JSON.parse(Spicetify.LocalStorage.get(SYNC_STATE_KEY) || "null");
+        if (typeof stored?.url === "string" && typeof stored?.revision === "number") return stored;
+    } catch (error) {
+        console.error("Invalid sync state:", error);
+    }
+    return undefined;
+};
+
+/**
+ * Reads the id of this machine, creating it on first use.
+ *
+ * @returns The id of this machine.
+ */
+export const getDeviceId = (): string => {
+    let device = Spicetify.LocalStorage.get(DEVICE_ID_KEY);
+    if (!device) {
+        device = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+        Spicetify.LocalStorage.set(DEVICE_ID_KEY, device);
+    }
+    return device;
+};
+
+/**
+ * Computes the time before which plays are rolled up here, so that syncing does not add them back individually.
+ */
+const getRollUpCutoff = (): number => {
+    const months = getRetentionMonths();
+    return months === 0 ? 0 : getRetentionCutoff(months);
+};
+
+/**
+ * Reads a sync document, leaving out the changes that are not valid.
+ *
+ * @param value - The parsed JSON of the document.
+ * @returns The sync document.
+ * @throws If the value is not a sync document.
+ */
+export const parseSyncDocument = (value: any): SyncDocument => {
+    if (value?.format !== SYNC_FORMAT || typeof value.revision !== "number" || !Array.isArray(value.changes)) {
+        throw new Error("Not a Spicetify History sync document");
+    }
+    const changes = (value.changes as any[]).filter((change) => {
+        const valid = typeof change?.id === "string"
+            && typeof change.changedAt === "number"
+            && typeof change.device === "string"
+            && typeof change.revision === "number"
+            && (change.song === undefined || (validateSong(change.song) === null && change.song.playId === change.id));
+        if (!valid) console.warn("Skipping invalid sync change:", change);
+        return valid;
+    });
+    return { format: SYNC_FORMAT, revision: value.revision, changes };
+};
+
+/**
+ * Writes changes into a sync document under a new revision. A change only replaces the one of the same play if it wins over it.
+ *
+ * @param document - The sync document, updated in place.
+ * @param changes - The changes to write.
+ * @returns The number of changes written.
+ */
+const writeChanges = (document: SyncDocument, changes: SyncChange[]): number => {
+    const revision = document.revision + 1;
+    const byId = new Map(document.changes.map((change) => [change.id, change]));
+    let count = 0;
+    for (const change of changes) {
+        const existing = byId.get(change.id);
+        if (existing && compareChanges(change, existing) <= 0) continue;
+        byId.set(change.id, { ...change, revision });
+        count++;
+    }
+    if (count > 0) {
+        document.revision = revision;
+        document.changes = [...byId.values()];
+    }
+    return count;
+};
+
+/**
+ * Builds the headers of the requests to the sync target.
+ */
+const getHeaders = (config: SyncConfig): Record<string, string> =>
+    config.username || config.password ? { "Authorization": `Basic ${btoa(`${config.username}:${config.password}`)}` } : {};
+
+/**
+ * A sync document downloaded from the target.
+ */
+interface FetchedDocument {
+    document: SyncDocument;
+    /** Whether the target holds the document; a target without a document yet holds an empty one. */
+    exists: boolean;
+    /** The ETag of the document, if the target sends one. */
+    etag?: string;
+}
+
+/**
+ * Downloads the sync document from the target.
+ *
+ * @param config - The sync settings.
+ * @returns A promise that resolves to the document.
+ * @throws If the target cannot be reached or does not hold a sync document.
+ */
+const fetchDocument = async (config: SyncConfig): Promise<FetchedDocument> => {
+    const response = await fetch(config.url, { headers: getHeaders(config), cache: "no-store" });
+    if (response.status === 404) return { document: { format: SYNC_FORMAT, revision: 0, changes: [] }, exists: false };
+    if (!response.ok) throw new Error(`The sync target answered HTTP ${response.status}`);
+    return { document: parseSyncDocument(await response.json()), exists: true, etag: response.headers.get("ETag") ?? undefined };
+};
+
+/**
+ * Uploads the sync document to the target. The upload only succeeds if the document is unchanged since it was downloaded:
+ * its ETag must still match, or it must still not exist. Targets that send no ETag cannot check that, see `isPushed`.
+ *
+ * @param config - The sync settings.
+ * @param document - The sync document.
+ * @param fetched - The document as downloaded.
+ * @returns A promise that resolves to false if another machine changed the document in the meantime.
+ * @throws If the target cannot be reached or refuses the document.
+ */
+const pushDocument = async (config: SyncConfig, document: SyncDocument, { exists, etag }: FetchedDocument): Promise<boolean> => {
+    const condition: Record<string, string> = etag ? { "If-Match": etag } : !exists ? { "If-None-Match": "*" } : {};
+    const response = await fetch(config.url, {
+        method: "PUT",
+        headers: { ...getHeaders(config), "Content-Type": "application/json", ...condition },
+        body: JSON.stringify(document),
+    });
+    if (response.status === 412) return false;
+    if (!response.ok) throw new Error(`The sync target answered HTTP ${response.status}`);
+    return true;
+};
+
+/**
+ * Checks that pushed changes are in the document on the target, for targets without ETags, where another machine pushing
+ * at the same time overwrites the document without either upload failing.
+ *
+ * @param config - The sync settings.
+ * @param changes - The changes pushed.
+ * @returns A promise that resolves to true if every change is on the target, or was replaced by one that wins over it.
+ */
+const isPushed = async (config: SyncConfig, changes: SyncChange[]): Promise<boolean> => {
+    const { document } = await fetchDocument(config);
+    const byId = new Map(document.changes.map((change) => [change.id, change]));
+    return changes.every((change) => {
+        const stored = byId.get(change.id);
+        return stored !== undefined && compareChanges(stored, change) >= 0;
+    });
+};
+
+let runningSync: Promise<SyncResult> | null = null;
+
+/**
+ * Syncs the history with the target: merges the changes made elsewhere, then pushes the changes made here.
+ * Only one sync runs at a time; calling it during a sync returns the running one.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A promise that resolves to the outcome once the history is in sync.
+ * @throws If no target is set, or it cannot be reached.
+ */
+export const syncNow = (db: IDBDatabase): Promise<SyncResult> => {
+    if (!runningSync) {
+        runningSync = runSync(db).finally(() => {
+            runningSync = null;
+        });
+    }
+    return runningSync;
+};
+
+/**
+ * Runs a sync, starting over when another machine pushed in the meantime.
+ */
+const runSync = async (db: IDBDatabase): Promise<SyncResult> => {
+    const config = getSyncConfig();
+    if (!config.url) throw new Error("No sync target is set");
+    const device = getDeviceId();
+    const state = getSyncState();
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        const fetched = await fetchDocument(config);
+        const { document } = fetched;
+        // A new target, or one whose document was reset, gets the whole history.
+        const known = state?.url === config.url && state.revision <= document.revision;
+        const since = known ? state.revision : 0;
+
+        const pulled = await mergeChangesInDB(
+            db,
+            document.changes.filter((change) => change.revision > since),
+            device,
+            getRollUpCutoff()
+        );
+        const changes = await getChangesFromDB(db, device, known);
+        const pushed = writeChanges(document, changes);
+        if (pushed > 0) {
+            const written = document.changes.filter((change) => change.revision === document.revision);
+            if (!(await pushDocument(config, document, fetched)) || (!fetched.etag && !(await isPushed(config, written)))) {
+                console.log("The sync document changed during the sync, starting over");
+                continue;
+            }
+        }
+
+        await markChangesSyncedInDB(db, changes, device);
+        const nextState: SyncState = { url: config.url, revision: document.revision, lastSync: Date.now() };
+        Spicetify.LocalStorage.set(SYNC_STATE_KEY, JSON.stringify(nextState));
+        console.log(`Synced history: ${pulled.added} added, ${pulled.updated} updated, ${pulled.deleted} deleted, ${pushed} pushed`);
+        return { pulled, pushed };
+    }
+    throw new Error("The sync document kept changing, try again later");
+};
+
+/**
+ * Downloads the whole change log of this machine as a sync file, to be imported on another machine.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A promise that resolves to the number of changes once the download is triggered.
+ */
+export const exportSyncFile = async (db: IDBDatabase): Promise<number> => {
+    const document: SyncDocument = { format: SYNC_FORMAT, revision: 0, changes: [] };
+    const count = writeChanges(document, await getChangesFromDB(db, getDeviceId(), false));
+
+    const url = URL.createObjectURL(new Blob([JSON.stringify(document)], { type: "application/json" }));
+    const link = window.document.createElement("a");
+    link.href = url;
+    link.download = "spicetify-history-sync.json";
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+    return count;
+};
+
+/**
+ * Merges a sync file exported on another machine into the history.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param file - The sync file.
+ * @returns A promise that resolves to the counts once the changes are merged.
+ * @throws If the file is not a sync file.
+ */
+export const importSyncFile = async (db: IDBDatabase, file: File): Promise<MergeCounts> => {
+    let value: unknown;
+    try {
+        value = JSON.parse(await file.text());
+    } catch (error) {
+        throw new Error(`${file.name} is not a JSON file`);
+    }
+    const document = parseSyncDocument(value);
+    return mergeChangesInDB(db, document.changes, getDeviceId(), getRollUpCutoff());
+};
+
+/**
+ * Starts syncing on its own: once now, and again every 15 minutes, whenever automatic sync is on.
+ *
+ * @param db - The open IndexedDB database instance.
+ */
+export const startSyncScheduler = (db: IDBDatabase): void => {
+    const check = () => {
+        const config = getSyncConfig();
+        if (!config.auto || !config.url) return;
+        syncNow(db).catch((error) => console.error("Failed to sync history:", error));
+    };
+    check();
+    setInterval(check, SYNC_INTERVAL_MS);
+};
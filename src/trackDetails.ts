@@ -0,0 +1,120 @@
+/**
+ * trackDetails.ts
+ *
+ * This module gathers what the history knows about a single track: its play counts, listening time and skip rate, every listen,
+ * and the tracks most often played in the same listening sessions.
+ * Sessions are found with `sessions.ts`, from the plays around each listen of the track rather than from the whole history.
+ */
+
+import { Song, AggregateTrack, getHistoryBatchFromDB, getTrackHistoryFromDB, getAggregatesByUriFromDB } from "./db";
+import { groupSessions, getSessionGapMinutes } from "./sessions";
+
+/**
+ * A track played in the same sessions as another.
+ */
+export interface CoPlayedTrack {
+    uri: string;
+    name: string;
+    artists: string;
+    /** The number of sessions both tracks were played in. */
+    sessions: number;
+}
+
+/**
+ * What the history knows about a track.
+ */
+export interface TrackDetails {
+    /** The title, artists and images of the track, if it was ever played. */
+    track?: AggregateTrack;
+    /** Every listen, most recent first. */
+    plays: Song[];
+    /** Plays that counted, rolled up plays included. */
+    playCount: number;
+    skips: number;
+    firstPlayed?: number;
+    lastPlayed?: number;
+    listenedMs: number;
+    /** The share of plays that were skipped, from 0 to 1. */
+    skipRate: number;
+    /** Plays rolled up into daily totals, which are counted but not listed. */
+    rolledUp: number;
+    /** The tracks most often played in the same sessions, most often first. */
+    coPlayed: CoPlayedTrack[];
+}
+
+// Plays this long before and after each listen are read to find its session; longer sessions are cut at the window.
+const SESSION_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+// Number of co-played tracks listed.
+const CO_PLAYED_LIMIT = 10;
+
+/**
+ * Merges the reading windows around listens into disjoint ranges.
+ *
+ * @param listenDates - The listen dates, in chronological order.
+ * @returns The ranges to read, in chronological order.
+ */
+const toRanges = (listenDates: number[]): [number, number][] => {
+    const ranges: [number, number][] = [];
+    for (const listenDate of listenDates) {
+        const last = ranges[ranges.length - 1];
+        if (last && listenDate - SESSION_WINDOW_MS <= last[1]) {
+            last[1] = listenDate + SESSION_WINDOW_MS;
+        } else {
+            ranges.push([listenDate - SESSION_WINDOW_MS, listenDate + SESSION_WINDOW_MS]);
+        }
+    }
+    return ranges;
+};
+
+/**
+ * Reads what the history knows about a track.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @param uri - The URI of the track.
+ * @returns A promise that resolves to the details of the track.
+ */
+export const getTrackDetails = async (db: IDBDatabase, uri: string): Promise<TrackDetails> => {
+    const [history, aggregates] = await Promise.all([getTrackHistoryFromDB(db, [uri]), getAggregatesByUriFromDB(db, uri)]);
+    const listenDates = (history.get(uri)?.plays ?? []).map((play) => play.listenDate).sort((a, b) => a - b);
+
+    // Read the plays around each listen, in chronological order, and group them into sessions.
+    const nearby: Song[] = [];
+    for (const [from, to] of toRanges(listenDates)) {
+        nearby.push(...(await getHistoryBatchFromDB(db, Number.MAX_SAFE_INTEGER, from, to)));
+    }
+    const sessions = groupSessions(nearby, getSessionGapMinutes()).filter((session) => session.plays.some((play) => play.uri === uri));
+
+    const coPlayed = new Map<string, CoPlayedTrack>();
+    for (const session of sessions) {
+        for (const play of new Map(session.plays.map((sessionPlay) => [sessionPlay.uri, sessionPlay])).values()) {
+            if (play.uri === uri) continue;
+            const track = coPlayed.get(play.uri) ?? {
+                uri: play.uri,
+                name: play.name,
+                artists: play.artists.map((artist) => artist.name).join(", "),
+                sessions: 0,
+            };
+            track.sessions++;
+            coPlayed.set(play.uri, track);
+        }
+    }
+
+    const plays = nearby.filter((play) => play.uri === uri).reverse();
+    const rolledUpPlays = aggregates.reduce((total, aggregate) => total + aggregate.plays, 0);
+    const rolledUpSkips = aggregates.reduce((total, aggregate) => total + aggregate.skips, 0);
+    const skips = plays.filter((play) => play.skipped).length + rolledUpSkips;
+    const playCount = plays.filter((play) => !play.skipped).length + rolledUpPlays;
+    return {
+        track: plays[0] ?? aggregates[aggregates.length - 1]?.track,
+        plays,
+        playCount,
+        skips,
+        firstPlayed: aggregates[0]?.dayStart ?? plays[plays.length - 1]?.listenDate,
+        lastPlayed: plays[0]?.listenDate ?? aggregates[aggregates.length - 1]?.dayStart,
+        listenedMs: plays.reduce((total, play) => total + play.playedMs, 0) + aggregates.reduce((total, aggregate) => total + aggregate.playedMs, 0),
+        skipRate: playCount + skips > 0 ? skips / (playCount + skips) : 0,
+        rolledUp: rolledUpPlays + rolledUpSkips,
+        coPlayed: [...coPlayed.values()].sort((a, b) => b.sessions - a.sessions).slice(0, CO_PLAYED_LIMIT),
+    };
+};
@@ -0,0 +1,116 @@
+/**
+ * tracking.ts
+ *
+ * This module decides when a play counts as a real listen.
+ * The extension measures how long each track was actually played, and a play only counts once that time passes the play threshold.
+ * Plays that never reach the threshold are still stored, flagged as skipped.
+ * Which plays are recorded at all is decided by the rules of `trackingRules.ts`.
+ *
+ * The threshold is stored in Spicetify.LocalStorage so that the app and the extension share it.
+ */
+
+/**
+ * The minimum listening time for a play to count, either as a percentage of the track duration or as a fixed number of seconds.
+ */
+export interface PlayThreshold {
+    mode: "percent" | "seconds";
+    value: number;
+}
+
+const PLAY_THRESHOLD_KEY = "spicetify-history:play-threshold";
+
+export const DEFAULT_PLAY_THRESHOLD: PlayThreshold = { mode: "seconds", value: 30 };
+
+/**
+ * Reads the play threshold, falling back to the default when none is stored or the stored one is invalid.
+ *
+ * @returns The current play threshold.
+ */
+export const getPlayThreshold = (): PlayThreshold => {
+    try {
+        const stored = JSON.parse(Spicetify.LocalStorage.get(PLAY_THRESHOLD_KEY) || "null");
+        if ((stored?.mode === "percent" || stored?.mode === "seconds") && typeof stored.value === "number" && stored.value >= 0) {
+            return stored;
+        }
+    } catch (error) {
+        console.error("Invalid play threshold:", error);
+    }
+    return DEFAULT_PLAY_THRESHOLD;
+};
+
+/**
+ * Stores the play threshold.
+ *
+ * @param threshold - The new play threshold.
+ */
+export const setPlayThreshold = (threshold: PlayThreshold): void => {
+    Spicetify.LocalStorage.set(PLAY_THRESHOLD_KEY, JSON.stringify(threshold));
+};
+
+/**
+ * Checks whether a play has been listened to long enough to count.
+ * A fixed threshold longer than the track itself is capped to the track duration, so short tracks played in full still count.
+ *
+ * @param playedMs - The time the track was actually played, in milliseconds.
+ * @param durationMs - The duration of the track, in milliseconds.
+ * @param threshold - The play threshold to check against.
+ * @returns True if the play counts, false if it is a skip.
+ */
+export const hasReachedThreshold = (playedMs: number, durationMs: number, threshold: PlayThreshold): boolean => {
+    const requiredMs = threshold.mode === "percent"
+        ? durationMs * Math.min(threshold.value, 100) / 100
+        : threshold.value * 1000;
+    // Leave a second of slack so a track played to the end is not missed by the last progress update.
+    return playedMs >= Math.min(requiredMs, Math.max(durationMs - 1000, 0));
+};
+
+/**
+ * The largest jump in playback position, beyond the wall-clock time elapsed, still counted as listening.
+ * Larger jumps are seeks.
+ */
+const MAX_PROGRESS_DRIFT_MS = 1000;
+
+/**
+ * Measures the time a track is actually listened to from successive playback positions.
+ * Time only accumulates while the position advances at playback speed, so pauses and seeks in either direction are not counted.
+ *
+ * @param startPosition - The playback position when measuring starts, in milliseconds.
+ * @returns Functions to feed playback positions, resynchronize after a pause or seek, and read the listened time.
+ */
+export const createListenTimer = (startPosition: number) => {
+    let playedMs = 0;
+    let lastPosition = startPosition;
+    let lastTick = Date.now();
+
+    return {
+        /**
+         * Records a new playback position.
+         * @param position - The current playback position, in milliseconds.
+         */
+        tick: (position: number): void => {
+            const now = Date.now();
+            const delta = position - lastPosition;
+            if (delta > 0 && delta <= now - lastTick + MAX_PROGRESS_DRIFT_MS) {
+                playedMs += delta;
+            }
+            lastPosition = position;
+            lastTick = now;
+        },
+        /**
+         * Restarts measuring from a position without counting the gap, e.g. after playback resumes.
+         * @param position - The current playback position, in milliseconds.
+         */
+        resync: (position: number): void => {
+            lastPosition = position;
+            lastTick = Date.now();
+        },
+        /**
+         * @returns The time listened so far, in milliseconds.
+         */
+        getPlayedMs: (): number => playedMs,
+        /**
+         * @returns The last playback position recorded, in milliseconds.
+         */
+        getPosition: (): number => lastPosition,
+    };
+};
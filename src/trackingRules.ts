@@ -0,0 +1,176 @@
+/**
+ * trackingRules.ts
+ *
+ * This module decides whether a play is recorded at all. It is checked by the extension when a track starts, before anything is saved.
+ * A play is not recorded when:
+ * - tracking is paused,
+ * - a private session is active and private sessions are honored,
+ * - the track, its album, one of its artists, or the playlist it is played from is excluded,
+ * - the track is shorter than the minimum length.
+ *
+ * The rules are stored in Spicetify.LocalStorage so that the app and the extension share them.
+ */
+
+/**
+ * A track, album, artist or playlist excluded from tracking.
+ */
+export interface ExcludedItem {
+    uri: string;
+    /** The name shown in the app, when it could be read. */
+    name?: string;
+}
+
+/**
+ * The rules deciding which plays are recorded.
+ */
+export interface TrackingRules {
+    paused: boolean;
+    /** Whether nothing is recorded during a private session. */
+    honorPrivateSession: boolean;
+    excluded: ExcludedItem[];
+    /** Tracks shorter than this are not recorded; 0 records every track. */
+    minDurationSeconds: number;
+}
+
+/**
+ * Why a play is not recorded.
+ */
+export type TrackingBlock = "paused" | "private-session" | "excluded" | "too-short";
+
+const TRACKING_RULES_KEY = "spicetify-history:tracking-rules";
+
+export const DEFAULT_TRACKING_RULES: TrackingRules = { paused: false, honorPrivateSession: true, excluded: [], minDurationSeconds: 0 };
+
+/**
+ * The window event dispatched after the tracking rules have changed, so the app and the extension show the same state.
+ */
+export const TRACKING_RULES_CHANGED_EVENT = "spicetify-history:tracking-rules-changed";
+
+const EXCLUDABLE_URI = /^spotify:(track|album|artist|playlist):[A-Za-z0-9]+$/;
+
+/**
+ * Reads the tracking rules, falling back to the defaults for missing or invalid values.
+ *
+ * @returns The current tracking rules.
+ */
+export const getTrackingRules = (): TrackingRules => {
+    try {
+        const stored = JSON.parse(Spicetify.LocalStorage.get(TRACKING_RULES_KEY) || "null");
+        return {
+            paused: typeof stored?.paused === "boolean" ? stored.paused : DEFAULT_TRACKING_RULES.paused,
+            honorPrivateSession: typeof stored?.honorPrivateSession === "boolean" ? stored.honorPrivateSession : DEFAULT_TRACKING_RULES.honorPrivateSession,
+            excluded: Array.isArray(stored?.excluded)
+                ? stored.excluded.filter((item: any) => typeof item?.uri === "string")
+                : DEFAULT_TRACKING_RULES.excluded,
+            minDurationSeconds: typeof stored?.minDurationSeconds === "number" && stored.minDurationSeconds >= 0
+                ? stored.minDurationSeconds
+                : DEFAULT_TRACKING_RULES.minDurationSeconds,
+        };
+    } catch (error) {
+        console.error("Invalid tracking rules:", error);
+    }
+    return DEFAULT_TRACKING_RULES;
+};
+
+/**
+ * Stores the tracking rules.
+ *
+ * @param rules - The new tracking rules.
+ */
+export const setTrackingRules = (rules: TrackingRules): void => {
+    Spicetify.LocalStorage.set(TRACKING_RULES_KEY, JSON.stringify(rules));
+    window.dispatchEvent(new CustomEvent<TrackingRules>(TRACKING_RULES_CHANGED_EVENT, { detail: rules }));
+};
+
+/**
+ * Checks whether a URI is excluded from tracking.
+ *
+ * @param uri - The URI of a track, album, artist or playlist.
+ * @returns True if it is excluded.
+ */
+export const isExcluded = (uri: string): boolean => getTrackingRules().excluded.some((item) => item.uri === uri);
+
+/**
+ * Excludes a track, album, artist or playlist from tracking, or includes it again.
+ *
+ * @param item - The item.
+ * @param excluded - Whether to exclude it.
+ */
+export const setExcluded = (item: ExcludedItem, excluded: boolean): void => {
+    const rules = getTrackingRules();
+    const others = rules.excluded.filter((excludedItem) => excludedItem.uri !== item.uri);
+    setTrackingRules({ ...rules, excluded: excluded ? [...others, item] : others });
+};
+
+/**
+ * Converts a Spotify URI or open.spotify.com link to a track, album, artist or playlist into its URI.
+ *
+ * @param value - The URI or link.
+ * @returns The URI, or undefined if the value is neither.
+ */
+export const parseExcludableUri = (value: string): string | undefined => {
+    const link = /open\.spotify\.com\/(?:[a-z-]+\/)?(track|album|artist|playlist)\/([A-Za-z0-9]+)/.exec(value);
+    const uri = link ? `spotify:${link[1]}:${link[2]}` : value.trim();
+    return EXCLUDABLE_URI.test(uri) ? uri : undefined;
+};
+
+/**
+ * Reads the name of a track, album, artist or playlist from the Spotify Web API, to show it in the list of exclusions.
+ *
+ * @param uri - The URI of the item.
+ * @returns A promise that resolves to the item, without a name if it could not be read.
+ */
+export const resolveExcludedItem = async (uri: string): Promise<ExcludedItem> => {
+    const [, type, id] = uri.split(":");
+    try {
+        const item = await Spicetify.CosmosAsync.get(`https://api.spotify.com/v1/${type}s/${id}`);
+        return { uri, name: typeof item?.name === "string" ? item.name : undefined };
+    } catch (error) {
+        console.error("Failed to read the name of", uri, error);
+        return { uri };
+    }
+};
+
+/**
+ * Checks whether a private session is active.
+ * Spotify does not document where the state lives; the client exposes it through the product state as "incognito-mode".
+ *
+ * @returns A promise that resolves to true during a private session.
+ */
+const isPrivateSession = async (): Promise<boolean> => {
+    try {
+        const values = await Spicetify.Platform?.ProductStateAPI?.getValues?.();
+        const mode = values?.["incognito-mode"];
+        return mode === true || mode === "1" || mode === "true";
+    } catch (error) {
+        console.error("Failed to read the private session state:", error);
+        return false;
+    }
+};
+
+/**
+ * Checks the tracking rules for a play that is starting.
+ *
+ * @param track - The track, with the URIs of its album and artists, and its duration.
+ * @param contextUri - The URI of the playlist, album or other context it is played from, if any.
+ * @returns A promise that resolves to why the play is not recorded, or null if it is.
+ */
+export const getTrackingBlock = async (
+    track: { uri: string; album?: { uri: string }; artists?: { uri: string }[]; duration?: { milliseconds: number } },
+    contextUri?: string
+): Promise<TrackingBlock | null> => {
+    const rules = getTrackingRules();
+    if (rules.paused) return "paused";
+
+    const excluded = new Set(rules.excluded.map((item) => item.uri));
+    if (excluded.has(track.uri)
+        || (track.album !== undefined && excluded.has(track.album.uri))
+        || track.artists?.some((artist) => excluded.has(artist.uri))
+        || (contextUri !== undefined && excluded.has(contextUri))) {
+        return "excluded";
+    }
+
+    if (rules.minDurationSeconds > 0 && (track.duration?.milliseconds ?? 0) < rules.minDurationSeconds * 1000) return "too-short";
+    if (rules.honorPrivateSession && await isPrivateSession()) return "private-session";
+    return null;
+};
@@ -0,0 +1,47 @@
+/**
+ * trash.ts
+ *
+ * This module holds the retention of the trash. Deleted plays are kept in the "trash" object store for a number of days,
+ * during which they can be restored, and are purged once they are older than that.
+ *
+ * The retention is stored in Spicetify.LocalStorage so that the app and the extension share it.
+ */
+
+import { purgeTrashInDB } from "./db";
+
+const TRASH_RETENTION_KEY = "spicetify-history:trash-retention-days";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads the number of days deleted plays are kept in the trash.
+ *
+ * @returns The retention in days, falling back to the default for missing or invalid values.
+ */
+export const getTrashRetentionDays = (): number => {
+    const days = parseInt(Spicetify.LocalStorage.get(TRASH_RETENTION_KEY) || "");
+    return !isNaN(days) && days >= 1 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+/**
+ * Stores the number of days deleted plays are kept in the trash.
+ *
+ * @param days - The retention in days, at least 1.
+ */
+export const setTrashRetentionDays = (days: number): void => {
+    Spicetify.LocalStorage.set(TRASH_RETENTION_KEY, `${days}`);
+};
+
+/**
+ * Permanently deletes the plays that have been in the trash for longer than the retention.
+ *
+ * @param db - The open IndexedDB database instance.
+ * @returns A promise that resolves to the number of purged plays.
+ */
+export const purgeExpiredTrash = async (db: IDBDatabase): Promise<number> => {
+    const count = await purgeTrashInDB(db, Date.now() - getTrashRetentionDays() * DAY_MS);
+    if (count > 0) console.log(`Purged ${count} plays from the trash`);
+    return count;
+};